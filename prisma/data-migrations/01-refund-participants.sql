@@ -0,0 +1,21 @@
+-- Refunds moved from a single participantId to a many-to-many relation with
+-- participants. Copies every existing link into the join table, so refunded
+-- passengers stay refunded once `prisma db push` drops the column.
+--
+-- Run once, before pushing the schema, on a database that still has
+-- SwishRefund.participantId:
+--   npx prisma db execute --schema prisma/schema.prisma --file prisma/data-migrations/01-refund-participants.sql
+
+-- Same table as `prisma db push` creates for SwishRefund.participants
+CREATE TABLE IF NOT EXISTS `_ParticipantToSwishRefund` (
+  `A` VARCHAR(191) NOT NULL,
+  `B` VARCHAR(191) NOT NULL,
+  UNIQUE INDEX `_ParticipantToSwishRefund_AB_unique`(`A`, `B`),
+  INDEX `_ParticipantToSwishRefund_B_index`(`B`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- A is the participant, B the refund
+INSERT IGNORE INTO `_ParticipantToSwishRefund` (`A`, `B`)
+SELECT `participantId`, `id`
+FROM `SwishRefund`
+WHERE `participantId` IS NOT NULL;
@@ -0,0 +1,182 @@
+-- Payments and refunds used to get a new row for every status Swish reported.
+-- They are now one row per Swish id holding the current state, with the history
+-- in SwishPaymentEvent / SwishRefundEvent. Collapses each payment and refund to
+-- one row and backfills the event logs from the rows it removes, so the unique
+-- constraints on SwishPayment.paymentId and SwishRefund.refundId can be pushed.
+--
+-- Run once, after 01-refund-participants.sql and before pushing the schema:
+--   npx prisma db execute --schema prisma/schema.prisma --file prisma/data-migrations/02-collapse-swish-rows.sql
+
+-- Same tables as `prisma db push` creates
+CREATE TABLE IF NOT EXISTS `SwishPaymentEvent` (
+  `id` VARCHAR(191) NOT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `paymentId` VARCHAR(191) NOT NULL,
+  `swishId` VARCHAR(191) NOT NULL,
+  `status` ENUM('CREATED', 'PAID', 'DECLINED', 'ERROR', 'CANCELLED') NOT NULL,
+  `payload` JSON NOT NULL,
+  INDEX `SwishPaymentEvent_paymentId_idx`(`paymentId`),
+  UNIQUE INDEX `SwishPaymentEvent_swishId_status_key`(`swishId`, `status`),
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `SwishRefundEvent` (
+  `id` VARCHAR(191) NOT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `refundId` VARCHAR(191) NOT NULL,
+  `swishId` VARCHAR(191) NOT NULL,
+  `status` ENUM('CREATED', 'DEBITED', 'VALIDATED', 'PAID', 'ERROR') NOT NULL,
+  `payload` JSON NOT NULL,
+  INDEX `SwishRefundEvent_refundId_idx`(`refundId`),
+  UNIQUE INDEX `SwishRefundEvent_swishId_status_key`(`swishId`, `status`),
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Payments ---------------------------------------------------------------
+
+-- The CREATED row is kept, it holds the callback secret and the participants
+CREATE TABLE `_migration_payment_keep` AS
+SELECT `id`, `paymentId`,
+  FIRST_VALUE(`id`) OVER (
+    PARTITION BY `paymentId`
+    ORDER BY `status` = 'CREATED' DESC, `createdAt`, `id`
+  ) AS `keepId`
+FROM `SwishPayment`;
+
+-- The current state is the settled status, PAID first, else CREATED
+CREATE TABLE `_migration_payment_state` AS
+SELECT `paymentId`, `id` AS `stateId`
+FROM (
+  SELECT `paymentId`, `id`,
+    ROW_NUMBER() OVER (
+      PARTITION BY `paymentId`
+      ORDER BY `status` = 'CREATED', `status` = 'PAID' DESC, `updatedAt` DESC, `id`
+    ) AS `n`
+  FROM `SwishPayment`
+) AS `ranked`
+WHERE `n` = 1;
+
+INSERT IGNORE INTO `SwishPaymentEvent` (`id`, `createdAt`, `paymentId`, `swishId`, `status`, `payload`)
+SELECT UUID(), `p`.`updatedAt`, `k`.`keepId`, `p`.`paymentId`, `p`.`status`,
+  JSON_OBJECT(
+    'id', `p`.`paymentId`,
+    'status', `p`.`status`,
+    'amount', `p`.`amount`,
+    'message', `p`.`message`,
+    'payerAlias', `p`.`payerAlias`,
+    'payeeAlias', `p`.`payeeAlias`,
+    'paymentReference', `p`.`paymentReference`,
+    'errorCode', `p`.`errorCode`,
+    'errorMessage', `p`.`errorMessage`,
+    'dateCreated', `p`.`createdAt`,
+    'backfilled', TRUE
+  )
+FROM `SwishPayment` AS `p`
+JOIN `_migration_payment_keep` AS `k` ON `k`.`id` = `p`.`id`
+ORDER BY `p`.`updatedAt`;
+
+UPDATE `SwishPayment` AS `kept`
+JOIN `_migration_payment_keep` AS `k` ON `k`.`id` = `kept`.`id` AND `k`.`keepId` = `kept`.`id`
+JOIN `_migration_payment_state` AS `s` ON `s`.`paymentId` = `kept`.`paymentId`
+JOIN `SwishPayment` AS `state` ON `state`.`id` = `s`.`stateId`
+SET
+  `kept`.`status` = `state`.`status`,
+  `kept`.`payerAlias` = COALESCE(`state`.`payerAlias`, `kept`.`payerAlias`),
+  `kept`.`paymentReference` = COALESCE(`state`.`paymentReference`, `kept`.`paymentReference`),
+  `kept`.`errorCode` = `state`.`errorCode`,
+  `kept`.`errorMessage` = `state`.`errorMessage`;
+
+-- A is the participant, B the payment
+INSERT IGNORE INTO `_ParticipantToSwishPayment` (`A`, `B`)
+SELECT `j`.`A`, `k`.`keepId`
+FROM `_ParticipantToSwishPayment` AS `j`
+JOIN `_migration_payment_keep` AS `k` ON `k`.`id` = `j`.`B`
+WHERE `k`.`keepId` <> `k`.`id`;
+
+DELETE `j` FROM `_ParticipantToSwishPayment` AS `j`
+JOIN `_migration_payment_keep` AS `k` ON `k`.`id` = `j`.`B`
+WHERE `k`.`keepId` <> `k`.`id`;
+
+UPDATE `SwishRefund` AS `r`
+JOIN `_migration_payment_keep` AS `k` ON `k`.`id` = `r`.`paymentId`
+SET `r`.`paymentId` = `k`.`keepId`
+WHERE `k`.`keepId` <> `k`.`id`;
+
+DELETE `p` FROM `SwishPayment` AS `p`
+JOIN `_migration_payment_keep` AS `k` ON `k`.`id` = `p`.`id`
+WHERE `k`.`keepId` <> `k`.`id`;
+
+DROP TABLE `_migration_payment_keep`;
+DROP TABLE `_migration_payment_state`;
+
+-- Refunds ----------------------------------------------------------------
+
+CREATE TABLE `_migration_refund_keep` AS
+SELECT `id`, `refundId`,
+  FIRST_VALUE(`id`) OVER (
+    PARTITION BY `refundId`
+    ORDER BY `status` = 'CREATED' DESC, `createdAt`, `id`
+  ) AS `keepId`
+FROM `SwishRefund`;
+
+-- PAID and ERROR are settled, otherwise the latest status wins
+CREATE TABLE `_migration_refund_state` AS
+SELECT `refundId`, `id` AS `stateId`
+FROM (
+  SELECT `refundId`, `id`,
+    ROW_NUMBER() OVER (
+      PARTITION BY `refundId`
+      ORDER BY `status` = 'PAID' DESC, `status` = 'ERROR' DESC, `status` = 'CREATED', `updatedAt` DESC, `id`
+    ) AS `n`
+  FROM `SwishRefund`
+) AS `ranked`
+WHERE `n` = 1;
+
+INSERT IGNORE INTO `SwishRefundEvent` (`id`, `createdAt`, `refundId`, `swishId`, `status`, `payload`)
+SELECT UUID(), `r`.`updatedAt`, `k`.`keepId`, `r`.`refundId`, `r`.`status`,
+  JSON_OBJECT(
+    'id', `r`.`refundId`,
+    'status', `r`.`status`,
+    'amount', `r`.`amount`,
+    'message', `r`.`message`,
+    'payerAlias', `r`.`payerAlias`,
+    'payeeAlias', `r`.`payeeAlias`,
+    'originalPaymentReference', `r`.`paymentReference`,
+    'errorCode', `r`.`errorCode`,
+    'errorMessage', `r`.`errorMessage`,
+    'dateCreated', `r`.`createdAt`,
+    'backfilled', TRUE
+  )
+FROM `SwishRefund` AS `r`
+JOIN `_migration_refund_keep` AS `k` ON `k`.`id` = `r`.`id`
+ORDER BY `r`.`updatedAt`;
+
+UPDATE `SwishRefund` AS `kept`
+JOIN `_migration_refund_keep` AS `k` ON `k`.`id` = `kept`.`id` AND `k`.`keepId` = `kept`.`id`
+JOIN `_migration_refund_state` AS `s` ON `s`.`refundId` = `kept`.`refundId`
+JOIN `SwishRefund` AS `state` ON `state`.`id` = `s`.`stateId`
+SET
+  `kept`.`status` = `state`.`status`,
+  `kept`.`payeeAlias` = COALESCE(NULLIF(`state`.`payeeAlias`, ''), `kept`.`payeeAlias`),
+  `kept`.`paymentReference` = COALESCE(`state`.`paymentReference`, `kept`.`paymentReference`),
+  `kept`.`errorCode` = `state`.`errorCode`,
+  `kept`.`errorMessage` = `state`.`errorMessage`,
+  `kept`.`dateRefunded` = COALESCE(`state`.`dateRefunded`, `kept`.`dateRefunded`);
+
+-- A is the participant, B the refund
+INSERT IGNORE INTO `_ParticipantToSwishRefund` (`A`, `B`)
+SELECT `j`.`A`, `k`.`keepId`
+FROM `_ParticipantToSwishRefund` AS `j`
+JOIN `_migration_refund_keep` AS `k` ON `k`.`id` = `j`.`B`
+WHERE `k`.`keepId` <> `k`.`id`;
+
+DELETE `j` FROM `_ParticipantToSwishRefund` AS `j`
+JOIN `_migration_refund_keep` AS `k` ON `k`.`id` = `j`.`B`
+WHERE `k`.`keepId` <> `k`.`id`;
+
+DELETE `r` FROM `SwishRefund` AS `r`
+JOIN `_migration_refund_keep` AS `k` ON `k`.`id` = `r`.`id`
+WHERE `k`.`keepId` <> `k`.`id`;
+
+DROP TABLE `_migration_refund_keep`;
+DROP TABLE `_migration_refund_state`;
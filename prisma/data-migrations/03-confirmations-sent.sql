@@ -0,0 +1,10 @@
+-- Paid payments whose confirmation email hasn't gone out are retried by the
+-- reconciliation job. Payments paid before SwishPayment.confirmationSentAt
+-- existed got their email already, mark them as sent so they aren't sent again.
+--
+-- Run once, right after pushing the schema that adds the column:
+--   npx prisma db execute --schema prisma/schema.prisma --file prisma/data-migrations/03-confirmations-sent.sql
+
+UPDATE `SwishPayment`
+SET `confirmationSentAt` = `updatedAt`
+WHERE `status` = 'PAID' AND `confirmationSentAt` IS NULL;
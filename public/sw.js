@@ -0,0 +1,89 @@
+// Lets the check-in page open without coverage. The page, its scripts and the
+// session are served from the network when possible and from the cache
+// otherwise. The manifest itself is kept in localStorage, see
+// src/utils/offlineCheckIn.ts, which also empties this cache on sign-out.
+
+const CACHE = "checkin-v1";
+// The page is statically rendered, the same HTML works for every event id
+const SHELL = "/admin/events/_offline";
+const CHECK_IN_PAGE = /^\/admin\/events\/[^/]+$/;
+const SESSION = "/api/auth/session";
+
+const isStatic = (url) => url.pathname.startsWith("/_next/static/");
+
+self.addEventListener("install", () => self.skipWaiting());
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const networkFirst = async (request, cacheKey) => {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(cacheKey, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(cacheKey);
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+};
+
+// Script and style names change with every build, so a cached one is current
+const cacheFirst = async (request) => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) {
+    return;
+  }
+  if (request.mode === "navigate" && CHECK_IN_PAGE.test(url.pathname)) {
+    event.respondWith(networkFirst(request, SHELL));
+  } else if (url.pathname === SESSION) {
+    event.respondWith(networkFirst(request, SESSION));
+  } else if (isStatic(url)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+// The page was loaded before the worker took over, so it sends what it loaded
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "CACHE_CHECK_IN_PAGE") {
+    return;
+  }
+  const urls = event.data.urls
+    .map((x) => new URL(x, self.location.origin))
+    .filter((url) => url.origin === self.location.origin);
+  event.waitUntil(
+    Promise.all(urls.map((url) => {
+      if (CHECK_IN_PAGE.test(url.pathname)) {
+        return networkFirst(url.href, SHELL);
+      }
+      if (url.pathname === SESSION) {
+        return networkFirst(url.href, SESSION);
+      }
+      return isStatic(url) ? cacheFirst(url.href) : null;
+    })).catch(() => null)
+  );
+});
@@ -1,5 +1,6 @@
 import { type VastraEvent } from "@prisma/client";
 import { type inferRouterOutputs } from "@trpc/server";
+import { format } from "date-fns";
 import { useRouter } from "next/router";
 import { useEffect, useRef, useState } from "react";
 import { toast } from "react-hot-toast";
@@ -13,6 +14,7 @@ import { Button } from "../../atoms/Button/Button";
 import { InputField } from "../../atoms/InputField/InputField";
 import { OutlinedButton } from "../../atoms/OutlinedButton/OutlinedButton";
 import { SwishModal } from "../SwishModal/SwishModal";
+import { WaitlistForm } from "../WaitlistForm/WaitlistForm";
 import { useSession } from "next-auth/react";
 import { pollPaymentStatus } from "~/utils/payment";
 
@@ -37,6 +39,7 @@ interface PassengerFormProps {
   onChange: (passenger: Partial<IPassenger>) => void;
   buses: inferRouterOutputs<AppRouter>['public']['getAwayGame']['buses'];
   eventId: string;
+  offeredBusId?: string | null;
 }
 
 const getPassengerPrice = (member: boolean, youth: boolean, event: VastraEvent) => {
@@ -52,18 +55,20 @@ const getPassengerPrice = (member: boolean, youth: boolean, event: VastraEvent)
   return event.defaultPrice
 };
 
-const PassengerForm = ({ passenger, onRemove, onChange, buses, eventId } : PassengerFormProps) => {
+const PassengerForm = ({ passenger, onRemove, onChange, buses, eventId, offeredBusId } : PassengerFormProps) => {
   const { data: event } = api.public.getAwayGame.useQuery({ id: eventId });
   const { index, member, youth } = passenger;
   if (!event) return null;
-  const busOptions = buses.map((bus) => {
-    const fullyBooked = bus._count.passengers >= bus.seats;
-    return {
-      value: bus.id,
-      label: `${bus.name} - (${bus._count.passengers}/${bus.seats})` + (fullyBooked ? " - Fullbokad" : "") ,
-      disabled: fullyBooked
-    }
-  })
+  const busOptions = buses
+    .filter((bus) => !offeredBusId || bus.id === offeredBusId)
+    .map((bus) => {
+      const fullyBooked = bus._count.passengers >= bus.seats && bus.id !== offeredBusId;
+      return {
+        value: bus.id,
+        label: `${bus.name} - (${bus._count.passengers}/${bus.seats})` + (fullyBooked ? " - Fullbokad" : "") ,
+        disabled: fullyBooked
+      }
+    })
 
   const isSwishNumber = index === 0;
 
@@ -116,6 +121,7 @@ const PassengerForm = ({ passenger, onRemove, onChange, buses, eventId } : Passe
         id={`busId_${index}`}
         name={`busId_${index}`}
         placeholder="Välj buss..."
+        value={passenger.busId}
         onChange={(e) => { onChange({ busId: e.target.value }) }}
         options={busOptions}
       />
@@ -175,9 +181,11 @@ const formToParticipant = (form: Record<string, IPassenger>) => {
 export const AwayGameForm = () => {
   const { query } = useRouter();
   const { data: sessionData } = useSession();
-  const { id } = query;
+  const { id, erbjudande: offerToken } = query;
   const [passengers, setPassengers] = useState<PassengerWithIndex[]>([{ index: 0 }]);
   const [modalOpen, setModalOpen] = useState(false);
+  const [useMobileCommerce, setUseMobileCommerce] = useState(false);
+  const [swishRequest, setSwishRequest] = useState<{ paymentRequestToken: string | null, qrCode: string | null }>();
   const formRef = useRef<HTMLFormElement>(null); 
   useEffect(() => {
     if (sessionData?.user) {
@@ -191,6 +199,25 @@ export const AwayGameForm = () => {
       setPassengers([initialPassenger]);
     }
   }, [sessionData])
+  const { data: offer } = api.waitlist.getOffer.useQuery(
+    { token: offerToken as string },
+    { enabled: typeof offerToken === "string", retry: false }
+  );
+
+  useEffect(() => {
+    if (offer) {
+      const [firstName, ...lastName] = offer.name.split(" ");
+      setPassengers([{
+        index: 0,
+        firstName,
+        lastName: lastName.join(" "),
+        email: offer.email,
+        phone: offer.phone,
+        busId: offer.busId ?? undefined,
+      }]);
+    }
+  }, [offer])
+
   if (!id) return null
   if (Array.isArray(id)) return null;
   const { data: awayGame, isLoading } = api.public.getAwayGame.useQuery({ id: id });
@@ -200,6 +227,12 @@ export const AwayGameForm = () => {
   if (isLoading) return null;
   if (!awayGame) return null;
 
+  const isFullyBooked = awayGame.buses.every((bus) => bus._count.passengers >= bus.seats);
+
+  if (isFullyBooked && !offer) {
+    return <WaitlistForm eventId={id} />
+  }
+
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     const formData = new FormData(event.currentTarget);
@@ -228,10 +261,13 @@ export const AwayGameForm = () => {
     }
 
     try {
-      const paymentId = await createPayment({
+      const { paymentId, paymentRequestToken, qrCode } = await createPayment({
         participants,
         eventId: id,
+        waitlistToken: offer ? offerToken as string : undefined,
+        swishFlow: useMobileCommerce ? "mcommerce" : "ecommerce",
       });
+      setSwishRequest({ paymentRequestToken, qrCode });
 
       const payment = await pollPaymentStatus(paymentId, checkPaymentStatus);
 
@@ -241,15 +277,28 @@ export const AwayGameForm = () => {
         formRef.current?.reset();
       }
     } catch (error) {
-      toast.error("Något gick fel, försök igen!");
+      const err = error as { message?: string, data?: { code?: string } };
+      toast.error(err.data?.code === "BAD_REQUEST" && err.message ? err.message : "Något gick fel, försök igen!");
     }
     setModalOpen(false);
+    setSwishRequest(undefined);
   }
   return (
     <>
-      <SwishModal isOpen={modalOpen} onClose={() => setModalOpen(false)} />
+      <SwishModal
+        isOpen={modalOpen}
+        onClose={() => setModalOpen(false)}
+        paymentRequestToken={swishRequest?.paymentRequestToken}
+        qrCode={swishRequest?.qrCode}
+      />
       <form onSubmit={handleSubmit} ref={formRef} className="w-full md:w-96">
         <div className="w-full grid gap-8">
+          {offer && (
+            <div className="p-4 bg-slate-800 rounded-lg">
+              <p>Du har fått en plats{offer.busName ? ` på ${offer.busName}` : ''} från kön.</p>
+              <p>Betala senast {format(offer.offerExpiresAt, "yyyy-MM-dd HH:mm")}.</p>
+            </div>
+          )}
           {passengers.map((passenger) => {
             return (
               <div key={passenger.index}>
@@ -257,6 +306,7 @@ export const AwayGameForm = () => {
                   buses={awayGame.buses}
                   passenger={passenger}
                   eventId={id}
+                  offeredBusId={offer?.busId}
                   onChange={(x: Partial<IPassenger>) => {
                     setPassengers(passengers.map((p) => {
                       if (p.index === passenger.index) {
@@ -276,14 +326,21 @@ export const AwayGameForm = () => {
             )
           })}
           <div className="flex flex-col space-y-2">
-            <Button
-              type="button"
-              onClick={() => {
-                setPassengers([...passengers, { index: passengers.length }])
-              }}
-              >
-                Lägg till passagerare
-              </Button>
+            {!offer && (
+              <Button
+                type="button"
+                onClick={() => {
+                  setPassengers([...passengers, { index: passengers.length }])
+                }}
+                >
+                  Lägg till passagerare
+                </Button>
+            )}
+            <Checkbox
+              label="Betala med QR-kod eller Swish på den här enheten"
+              checked={useMobileCommerce}
+              onChange={(e) => setUseMobileCommerce(e.target.checked)}
+            />
             <Button type="submit">Anmäl</Button>
               <p className="text-center">Summa: {passengers.reduce((acc, { member, youth }) => {
                 return acc + getPassengerPrice(!!member, !!youth, awayGame);
@@ -1,3 +1,4 @@
+import Image from "next/image";
 import { useRouter } from "next/router";
 import { Button } from "~/components/atoms/Button/Button";
 import Modal from "~/components/atoms/Modal/Modal";
@@ -6,14 +7,22 @@ import { Spinner } from "~/components/atoms/Spinner/Spinner";
 interface SwishModalProps {
   isOpen: boolean;
   onClose: () => void;
+  // Set for m-commerce payments, where the payer opens the request themselves
+  paymentRequestToken?: string | null;
+  qrCode?: string | null;
 }
 
-export const SwishModal = ({ isOpen, onClose } : SwishModalProps) => {
+export const SwishModal = ({ isOpen, onClose, paymentRequestToken, qrCode } : SwishModalProps) => {
   const router = useRouter();
-  const swishUrl = "swish://paymentrequest";
 
   const openSwishApp = async () => {
-    await router.push(swishUrl);
+    if (!paymentRequestToken) {
+      await router.push("swish://paymentrequest");
+      return;
+    }
+    // Swish sends the payer back here once the payment is done
+    const callbackUrl = encodeURIComponent(window.location.href);
+    await router.push(`swish://paymentrequest?token=${paymentRequestToken}&callbackurl=${callbackUrl}`);
   }
 
   return (
@@ -23,10 +32,25 @@ export const SwishModal = ({ isOpen, onClose } : SwishModalProps) => {
     >
       <div className="space-y-4">
         <h4 className="text-xl">Swish</h4>
-        <Spinner />
-        <p>Öppna Swish på din mobil för att betala</p>
+        {paymentRequestToken ? (
+          <>
+            {qrCode && (
+              <div className="hidden md:flex flex-col items-center space-y-2">
+                <Image src={qrCode} alt="Swish QR-kod" width={200} height={200} unoptimized />
+                <p>Skanna QR-koden med Swish-appen för att betala</p>
+              </div>
+            )}
+            <Spinner />
+            <p className="md:hidden">Tryck på knappen för att betala i Swish</p>
+          </>
+        ) : (
+          <>
+            <Spinner />
+            <p>Öppna Swish på din mobil för att betala</p>
+          </>
+        )}
         <Button className="md:hidden w-full" onClick={openSwishApp}>Öppna Swish</Button>
       </div>
     </Modal>
   )
-}
\ No newline at end of file
+}
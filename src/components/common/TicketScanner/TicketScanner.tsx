@@ -0,0 +1,87 @@
+import jsQR from "jsqr";
+import { useEffect, useRef, useState } from "react";
+
+interface TicketScannerProps {
+  onScan: (token: string) => void;
+  // Stops reading codes, e.g. while the last scan is being checked
+  paused?: boolean;
+}
+
+export const TicketScanner = ({ onScan, paused = false } : TicketScannerProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onScanRef = useRef(onScan);
+  const pausedRef = useRef(paused);
+  const [error, setError] = useState<string | null>(null);
+
+  onScanRef.current = onScan;
+  pausedRef.current = paused;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+
+    const scan = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (stopped || !video || !canvas) {
+        return;
+      }
+      if (video.readyState === video.HAVE_ENOUGH_DATA && !pausedRef.current) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext("2d", { willReadFrequently: true });
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = context.getImageData(0, 0, canvas.width, canvas.height);
+          const code = jsQR(image.data, image.width, image.height, {
+            inversionAttempts: "dontInvert"
+          });
+          if (code?.data) {
+            onScanRef.current(code.data);
+          }
+        }
+      }
+      frame = requestAnimationFrame(scan);
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: "environment" }
+        });
+        const video = videoRef.current;
+        if (stopped || !video) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        video.srcObject = stream;
+        await video.play();
+        frame = requestAnimationFrame(scan);
+      } catch (err) {
+        console.error(err);
+        setError("Kunde inte starta kameran. Kontrollera att sidan får använda kameran.");
+      }
+    };
+
+    void start();
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  if (error) {
+    return <p className="text-center">{error}</p>
+  }
+
+  return (
+    <div className="relative">
+      <video ref={videoRef} className="w-full rounded-md" muted playsInline />
+      <canvas ref={canvasRef} className="hidden" />
+    </div>
+  )
+}
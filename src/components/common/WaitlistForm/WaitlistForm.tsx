@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { Button } from "~/components/atoms/Button/Button";
+import { InputField } from "~/components/atoms/InputField/InputField";
+import { api } from "~/utils/api";
+import { waitlistSchema } from "~/utils/zodSchemas";
+
+interface WaitlistFormProps {
+  eventId: string;
+}
+
+export const WaitlistForm = ({ eventId } : WaitlistFormProps) => {
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
+  const [email, setEmail] = useState("");
+  const [phone, setPhone] = useState("");
+  const { mutateAsync: joinWaitlist, isLoading } = api.waitlist.joinWaitlist.useMutation();
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const payload = waitlistSchema.safeParse({
+      name: `${firstName} ${lastName}`.trim(),
+      email,
+      phone,
+      eventId
+    });
+    if (!payload.success) {
+      payload.error.issues.map((x) => toast.error(x.message))
+      return;
+    }
+    try {
+      const { placeInLine } = await joinWaitlist(payload.data);
+      toast.success(`Du står nu på plats ${placeInLine} i kön. Vi mailar dig om en plats blir ledig!`);
+      setFirstName("");
+      setLastName("");
+      setEmail("");
+      setPhone("");
+    } catch (error) {
+      const err = error as { message: string }
+      toast.error(err.message)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full md:w-96">
+      <div className="flex flex-col space-y-2 p-4 bg-slate-800 rounded-lg">
+        <p className="text-xl">Resan är fullbokad</p>
+        <p className="text-sm">
+          Ställ dig i kön så får du ett mail om en plats blir ledig. Du har då en begränsad tid på dig att betala innan platsen går vidare.
+        </p>
+        <InputField
+          label="Förnamn"
+          placeholder="Förnamn..."
+          name="firstName"
+          value={firstName}
+          onChange={(e) => setFirstName(e.target.value)}
+          required
+        />
+        <InputField
+          label="Efternamn"
+          placeholder="Efternamn..."
+          name="lastName"
+          value={lastName}
+          onChange={(e) => setLastName(e.target.value)}
+          required
+        />
+        <InputField
+          label="Mobilnummer"
+          placeholder="Mobil..."
+          name="phone"
+          type="tel"
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+          required
+        />
+        <InputField
+          label="Email"
+          placeholder="Email..."
+          name="email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
+        <Button type="submit" disabled={isLoading}>Ställ mig i kön</Button>
+      </div>
+    </form>
+  )
+}
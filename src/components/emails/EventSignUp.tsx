@@ -7,6 +7,8 @@ import { type ParticipantWithBusAndEvent } from "~/server/api/routers/eventPayme
 interface EventSignUpProps {
   participant: ParticipantWithBusAndEvent;
   cancellationUrl: string;
+  // QR code shown at check-in
+  ticketUrl?: string;
 }
 
 const mockBus: EventSignUpProps['participant']['bus'] = {
@@ -43,13 +45,16 @@ const mockParticipant: EventSignUpProps['participant'] = {
   eventId: 'testevent',
   youth: false,
   member: false,
+  memberVerified: false,
   bus: mockBus,
   cancellationDate: new Date(),
   cancellationToken: 'testtoken',
+  reservedUntil: null,
   note: 'Testnote',
   busId: 'testbus',
   event: mockEvent,
   checkedIn: false,
+  checkedInUpdatedAt: null,
 }
 
 const baseUrl = process.env.VERCEL_URL
@@ -58,7 +63,8 @@ const baseUrl = process.env.VERCEL_URL
 
 export const EventSignUp = ({
   participant = mockParticipant,
-  cancellationUrl
+  cancellationUrl,
+  ticketUrl
 }: EventSignUpProps) => {
   const {
     name,
@@ -98,6 +104,13 @@ export const EventSignUp = ({
               <Text className="text-lg">Pris: {payAmount} kr</Text>
               {note && <Text className="text-lg">Övrigt: {note}</Text>}
             </Container>
+            {ticketUrl && (
+              <>
+                <Hr />
+                <Text className="text-lg text-center">Visa din biljett när du kliver på bussen</Text>
+                <Img src={ticketUrl} width="200" height="200" alt="Biljett" className="m-auto bg-white" />
+              </>
+            )}
             <Hr />
             <Text className="text-lg">Du kan avboka din plats genom att klicka på knappen nedan</Text>
             <Button
@@ -0,0 +1,85 @@
+import { type Prisma } from '@prisma/client';
+import { Button } from '@react-email/button';
+import { Container, Head, Hr, Img, Section, Tailwind, Text } from "@react-email/components";
+import { Html } from '@react-email/html';
+
+interface HouseholdInviteProps {
+  member: Prisma.HouseholdMemberGetPayload<{
+    include: {
+      membership: true;
+    }
+  }>;
+  inviterName: string;
+}
+
+const mockMember: HouseholdInviteProps['member'] = {
+  id: 'testmember',
+  firstName: 'Test',
+  lastName: 'Testsson',
+  email: 'test@testsson.com',
+  inviteToken: 'testtoken',
+  invitedAt: new Date(),
+  claimedAt: null,
+  swishPaymentId: 'testpayment',
+  membershipId: 'testmembership',
+  userId: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  membership: {
+    id: 'testmembership',
+    name: 'Medlemskap 2024',
+    wordpressId: '1',
+    imageUrl: '',
+    type: 'FAMILY',
+    price: 500,
+    startDate: new Date(),
+    endDate: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  },
+}
+
+const baseUrl = process.env.VERCEL_URL
+  ? `https://${process.env.VERCEL_URL}`
+  : 'http://localhost:3000';
+
+export const HouseholdInvite = ({
+  member = mockMember,
+  inviterName = 'Test Testsson'
+}: HouseholdInviteProps) => {
+  const { firstName, membership, inviteToken } = member;
+  const inviteUrl = `${baseUrl}/medlem/hushall?token=${inviteToken}`;
+  return (
+    <Tailwind>
+      <Html className="bg-slate-900">
+        <Head>
+          <title>Du har fått ett familjemedlemskap i Västra Sidan</title>
+        </Head>
+        <Section className="bg-slate-900 p-4">
+          <Img src={`${baseUrl}/static/vss_buss.jpg`} width="40%" className="m-auto" />
+        </Section>
+        <Section className="bg-slate-800 p-4 text-white">
+          <Container>
+            <Text className="text-5xl text-center">Välkommen, {firstName}!</Text>
+            <Hr />
+            <Text className="text-lg">
+              {inviterName} har lagt till dig i sitt familjemedlemskap ({membership.name}).
+              Som medlem åker du billigare på bortaresorna.
+            </Text>
+            <Text className="text-lg">Logga in eller skapa ett konto för att se medlemskapet på din profil.</Text>
+            <Button
+              pX={20}
+              pY={12}
+              href={inviteUrl}
+              className="bg-blue-500 hover:bg-blue-700 font-bold py-2 px-4 rounded text-white"
+            >
+              Gå med i familjen
+            </Button>
+          </Container>
+        </Section>
+      </Html>
+    </Tailwind>
+  );
+}
+
+export default HouseholdInvite;
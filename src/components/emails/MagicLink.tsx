@@ -0,0 +1,40 @@
+import { Button, Container, Head, Hr, Section, Tailwind, Text } from "@react-email/components";
+import { Html } from '@react-email/html';
+
+interface MagicLinkProps {
+  url: string;
+}
+
+export const MagicLink = ({
+  url = 'http://localhost:3000/api/auth/callback/email',
+}: MagicLinkProps) => {
+  return (
+    <Tailwind>
+      <Html className="bg-slate-900">
+        <Head>
+          <title>Logga in på Västra Sidan</title>
+        </Head>
+        <Section className="bg-slate-800 p-4 text-white">
+          <Container>
+            <Text className="text-xl text-center">Klicka på knappen nedan för att logga in. Har du inget konto skapas ett åt dig.</Text>
+            <Hr />
+            <Container className="flex items-center justify-center">
+              <Button
+                pX={20}
+                pY={12}
+                href={url}
+                className="bg-blue-500 hover:bg-blue-700 font-bold py-2 px-4 rounded text-white"
+              >
+                Logga in
+              </Button>
+            </Container>
+            <Hr />
+            <Text>Länken gäller i 24 timmar och kan bara användas en gång. Har du inte försökt logga in kan du ignorera det här mailet.</Text>
+          </Container>
+        </Section>
+      </Html>
+    </Tailwind>
+  );
+}
+
+export default MagicLink;
@@ -0,0 +1,88 @@
+import { type Prisma } from '@prisma/client';
+import { Button } from '@react-email/button';
+import { Container, Head, Hr, Img, Section, Tailwind, Text } from "@react-email/components";
+import { Html } from '@react-email/html';
+import { format } from 'date-fns';
+import { friendlyMembershipNames } from '~/server/utils/membership';
+
+type ReminderMembership = Prisma.MembershipGetPayload<{
+  select: {
+    name: true;
+    type: true;
+    endDate: true;
+    imageUrl: true;
+  }
+}>;
+
+interface MembershipRenewalProps {
+  firstName: string;
+  membership: ReminderMembership;
+  nextSeason: ReminderMembership;
+}
+
+const mockMembership: ReminderMembership = {
+  name: 'Medlemskap 2024',
+  type: 'REGULAR',
+  endDate: new Date(),
+  imageUrl: ''
+}
+
+const mockNextSeason: ReminderMembership = {
+  name: 'Medlemskap 2025',
+  type: 'REGULAR',
+  endDate: new Date(),
+  imageUrl: 'https://cmsdev.vastrasidan.se/wp-content/uploads/2021/03/Medlemskort-2021.png'
+}
+
+const baseUrl = process.env.VERCEL_URL
+  ? `https://${process.env.VERCEL_URL}`
+  : 'http://localhost:3000';
+
+export const MembershipRenewal = ({
+  firstName = 'Test',
+  membership = mockMembership,
+  nextSeason = mockNextSeason
+}: MembershipRenewalProps) => {
+  const hasExpired = membership.endDate < new Date();
+  const renewUrl = `${baseUrl}/bli-medlem?typ=${nextSeason.type}`;
+  return (
+    <Tailwind>
+      <Html className="bg-slate-900">
+        <Head>
+          <title>Förnya ditt medlemskap i Västra Sidan</title>
+        </Head>
+        <Section className="bg-slate-900 p-4">
+          {nextSeason.imageUrl ? (
+            <Img src={nextSeason.imageUrl} className="m-auto" style={{ maxHeight: 400 }} />
+          ) : (
+            <Img src={`${baseUrl}/static/vss_buss.jpg`} width="40%" className="m-auto" />
+          )}
+        </Section>
+        <Section className="bg-slate-800 p-4 text-white">
+          <Container>
+            <Text className="text-5xl text-center">Hej {firstName}!</Text>
+            <Hr />
+            <Text className="text-lg">
+              {hasExpired
+                ? `Ditt medlemskap (${membership.name}) gick ut ${format(membership.endDate, "yyyy-MM-dd")}.`
+                : `Ditt medlemskap (${membership.name}) går ut ${format(membership.endDate, "yyyy-MM-dd")}.`}
+            </Text>
+            <Text className="text-lg">
+              Förnya med {nextSeason.name}, {friendlyMembershipNames[nextSeason.type]}, så fortsätter du åka billigare på bortaresorna.
+            </Text>
+            <Button
+              pX={20}
+              pY={12}
+              href={renewUrl}
+              className="bg-blue-500 hover:bg-blue-700 font-bold py-2 px-4 rounded text-white"
+            >
+              Förnya medlemskap
+            </Button>
+          </Container>
+        </Section>
+      </Html>
+    </Tailwind>
+  );
+}
+
+export default MembershipRenewal;
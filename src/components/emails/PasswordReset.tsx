@@ -0,0 +1,48 @@
+import { Button, Container, Head, Hr, Section, Tailwind, Text } from "@react-email/components";
+import { Html } from '@react-email/html';
+
+interface PasswordResetProps {
+  token: string;
+  expiresInMinutes: number;
+}
+
+const baseUrl = process.env.VERCEL_URL
+  ? `https://${process.env.VERCEL_URL}`
+  : 'http://localhost:3000';
+
+
+export const PasswordReset = ({
+  token = 'testtoken',
+  expiresInMinutes = 60,
+}: PasswordResetProps) => {
+  const resetUrl = `${baseUrl}/aterstall-losenord?token=${token}`;
+  return (
+    <Tailwind>
+      <Html className="bg-slate-900">
+        <Head>
+          <title>Återställ ditt lösenord</title>
+        </Head>
+        <Section className="bg-slate-800 p-4 text-white">
+          <Container>
+            <Text className="text-xl text-center">Någon har bett om att återställa lösenordet för ditt konto. Klicka på knappen nedan för att välja ett nytt lösenord.</Text>
+            <Hr />
+            <Container className="flex items-center justify-center">
+              <Button
+                pX={20}
+                pY={12}
+                href={resetUrl}
+                className="bg-blue-500 hover:bg-blue-700 font-bold py-2 px-4 rounded text-white"
+              >
+                Återställ lösenord
+              </Button>
+            </Container>
+            <Hr />
+            <Text>Länken gäller i {expiresInMinutes} minuter. Har du inte bett om ett nytt lösenord kan du ignorera det här mailet.</Text>
+          </Container>
+        </Section>
+      </Html>
+    </Tailwind>
+  );
+}
+
+export default PasswordReset;
@@ -0,0 +1,88 @@
+import { type Prisma } from '@prisma/client';
+import { Container, Head, Hr, Img, Section, Tailwind, Text } from "@react-email/components";
+import { Html } from '@react-email/html';
+import { format } from "date-fns";
+
+interface RefundNoticeProps {
+  participant: Prisma.ParticipantGetPayload<{
+    include: {
+      event: true;
+    }
+  }>;
+  reason: string;
+}
+
+const mockParticipant: RefundNoticeProps['participant'] = {
+  id: 'testparticipant',
+  name: 'Test Testsson',
+  email: 'test@testsson.com',
+  phone: '0701234567',
+  note: null,
+  eventId: 'testevent',
+  busId: 'testbus',
+  cancellationToken: 'testtoken',
+  cancellationDate: null,
+  reservedUntil: null,
+  payAmount: 100,
+  checkedIn: false,
+  checkedInUpdatedAt: null,
+  member: false,
+  memberVerified: false,
+  youth: false,
+  userEmail: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  event: {
+    id: 'testevent',
+    name: 'Testevent',
+    description: 'Testevent',
+    date: new Date(),
+    defaultPrice: 100,
+    memberPrice: 100,
+    youthPrice: 100,
+    youthMemberPrice: 100,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  },
+}
+
+const baseUrl = process.env.VERCEL_URL
+  ? `https://${process.env.VERCEL_URL}`
+  : 'http://localhost:3000';
+
+export const RefundNotice = ({
+  participant = mockParticipant,
+  reason = 'Matchen är flyttad',
+}: RefundNoticeProps) => {
+  const { name, event, payAmount } = participant;
+  return (
+    <Tailwind>
+      <Html className="bg-slate-900">
+        <Head>
+          <title>Resan till {event.name} är inställd</title>
+        </Head>
+        <Section className="bg-slate-900 p-4">
+          <Img src={`${baseUrl}/static/vss_buss.jpg`} width="40%" className="m-auto" />
+        </Section>
+        <Section className="bg-slate-800 p-4 text-white">
+          <Container>
+            <Text className="text-5xl text-center">Din resa är avbokad</Text>
+            <Hr />
+            <Container>
+              <Text className="text-lg">Event: {event.name}</Text>
+              <Text className="text-lg">Namn: {name}</Text>
+              <Text className="text-lg">Avgångstid: {format(event.date, 'yyyy-MM-dd HH:mm')}</Text>
+              <Text className="text-lg">Anledning: {reason}</Text>
+            </Container>
+            <Hr />
+            <Text className="text-lg">
+              Vi återbetalar {payAmount ?? 0} kr till numret som betalade bokningen. Pengarna kommer via Swish inom kort.
+            </Text>
+          </Container>
+        </Section>
+      </Html>
+    </Tailwind>
+  );
+}
+
+export default RefundNotice;
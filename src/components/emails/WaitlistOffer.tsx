@@ -0,0 +1,105 @@
+import { type Prisma } from '@prisma/client';
+import { Button } from '@react-email/button';
+import { Container, Head, Hr, Img, Section, Tailwind, Text } from "@react-email/components";
+import { Html } from '@react-email/html';
+import { format } from "date-fns";
+
+interface WaitlistOfferProps {
+  offer: Prisma.WaitlistEntryGetPayload<{
+    include: {
+      event: true;
+      bus: true;
+    }
+  }>;
+}
+
+const mockEvent: WaitlistOfferProps['offer']['event'] = {
+  id: 'testevent',
+  name: 'Testevent',
+  description: 'Testevent',
+  date: new Date(),
+  defaultPrice: 100,
+  memberPrice: 100,
+  youthPrice: 100,
+  youthMemberPrice: 100,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+const mockOffer: WaitlistOfferProps['offer'] = {
+  id: 'testoffer',
+  name: 'Test Testsson',
+  email: 'test@testsson.com',
+  phone: '0701234567',
+  position: 1,
+  status: 'OFFERED',
+  offerToken: 'testtoken',
+  offeredAt: new Date(),
+  offerExpiresAt: new Date(),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  eventId: 'testevent',
+  event: mockEvent,
+  busId: 'testbus',
+  swishPaymentId: null,
+  bus: {
+    id: 'testbus',
+    name: 'Testbuss',
+    eventId: 'testevent',
+    seats: 50,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  },
+}
+
+const baseUrl = process.env.VERCEL_URL
+  ? `https://${process.env.VERCEL_URL}`
+  : 'http://localhost:3000';
+
+export const WaitlistOffer = ({
+  offer = mockOffer,
+}: WaitlistOfferProps) => {
+  const { name, event, bus, offerToken, offerExpiresAt } = offer;
+  const offerUrl = `${baseUrl}/bortaresor/${event.id}?erbjudande=${offerToken ?? ''}`;
+  return (
+    <Tailwind>
+      <Html className="bg-slate-900">
+        <Head>
+          <title>Ledig plats till {event.name}</title>
+        </Head>
+        <Section className="bg-slate-900 p-4">
+          <Img src={`${baseUrl}/static/vss_buss.jpg`} width="40%" className="m-auto" />
+        </Section>
+        <Section className="bg-slate-800 p-4 text-white">
+          <Container>
+            <Text className="text-5xl text-center">En plats har blivit ledig!</Text>
+            <Hr />
+            <Container>
+              <Text className="text-lg">Event: {event.name}</Text>
+              <Text className="text-lg">Namn: {name}</Text>
+              {bus && (
+                <Text className="text-lg">Buss: {bus.name}</Text>
+              )}
+              <Text className="text-lg">Avgångstid: {format(event.date, 'yyyy-MM-dd HH:mm')}</Text>
+              {offerExpiresAt && (
+                <Text className="text-lg">Betala senast: {format(offerExpiresAt, 'yyyy-MM-dd HH:mm')}</Text>
+              )}
+            </Container>
+            <Hr />
+            <Text className="text-lg">Platsen är reserverad åt dig. Betalar du inte i tid går den vidare till nästa person i kön.</Text>
+            <Button
+              pX={20}
+              pY={12}
+              href={offerUrl}
+              className="bg-blue-500 hover:bg-blue-700 font-bold py-2 px-4 rounded text-white"
+            >
+              Boka platsen
+            </Button>
+          </Container>
+        </Section>
+      </Html>
+    </Tailwind>
+  );
+}
+
+export default WaitlistOffer;
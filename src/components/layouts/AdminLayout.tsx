@@ -1,10 +1,10 @@
-import { Role } from "@prisma/client";
 import { useSession } from "next-auth/react";
 import { type PropsWithChildren } from "react";
+import { isStaff } from "~/utils/permissions";
 
 export default function AdminLayout({ children } : PropsWithChildren) {
   const { data: sessionData } = useSession();
-  const title = sessionData?.user?.role === Role.ADMIN ? `Admin - ${sessionData.user?.name || ''}` : "Logga in för att se adminsidan";
+  const title = isStaff(sessionData?.user?.role) ? `Admin - ${sessionData?.user?.name || ''}` : "Logga in för att se adminsidan";
 
   return (
     <div>
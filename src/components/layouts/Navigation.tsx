@@ -3,6 +3,8 @@ import Image from "next/image";
 import Link from "next/link";
 import { useState } from "react";
 import { featureFlags } from "~/utils/featureFlags";
+import { clearOfflineCheckIn } from "~/utils/offlineCheckIn";
+import { isStaff } from "~/utils/permissions";
 import { Button } from "../atoms/Button/Button";
 import { ButtonLink } from "../atoms/ButtonLink/ButtonLink";
 
@@ -33,13 +35,16 @@ const UserMenu = ({ className }: UserMenuProps) => {
         <li>
           <Link href="/mina-bussresor" className="block px-4 py-2 text-sm hover:bg-gray-600 text-gray-200 hover:text-white">Mina bussresor</Link>
         </li>
-        {sessionData?.user.role === 'ADMIN' && (
+        <li>
+          <Link href="/mitt-konto" className="block px-4 py-2 text-sm hover:bg-gray-600 text-gray-200 hover:text-white">Mitt konto</Link>
+        </li>
+        {isStaff(sessionData?.user.role) && (
           <li>
             <Link href="/admin" className="block px-4 py-2 text-sm hover:bg-gray-600 text-gray-200 hover:text-white">Admin</Link>
           </li>
         )}
         <li>
-          <p onClick={() => signOut()} className="rounded-b-lg block px-4 py-2 text-sm hover:bg-gray-600 text-gray-200 hover:text-white">Logga ut</p>
+          <p onClick={() => void clearOfflineCheckIn().then(() => signOut())} className="rounded-b-lg block px-4 py-2 text-sm hover:bg-gray-600 text-gray-200 hover:text-white">Logga ut</p>
         </li>
       </ul>
     </div>
@@ -131,7 +136,7 @@ export const Navigation = () => {
                 <Link href="/mina-medlemskap" className="block py-4 pl-3 pr-4 rounded md:p-0 text-white" aria-current="page">Mina medlemskap</Link>
               </li>
             )} 
-            {sessionData?.user.role === 'ADMIN' && (
+            {isStaff(sessionData?.user.role) && (
               <li>
                 <Link href="/admin" className="block py-4 pl-3 pr-4 rounded md:p-0 text-white">Admin</Link>
               </li>
@@ -142,7 +147,10 @@ export const Navigation = () => {
                   <Link href="/mina-bussresor" className="block py-4 pl-3 pr-4 rounded md:p-0 text-white" aria-current="page">Mina bussresor</Link>
                 </li>
                 <li>
-                  <div onClick={() => signOut()} className="block py-4 pl-3 pr-4 rounded md:p-0 text-white" aria-current="page">Logga ut</div>
+                  <Link href="/mitt-konto" className="block py-4 pl-3 pr-4 rounded md:p-0 text-white" aria-current="page">Mitt konto</Link>
+                </li>
+                <li>
+                  <div onClick={() => void clearOfflineCheckIn().then(() => signOut())} className="block py-4 pl-3 pr-4 rounded md:p-0 text-white" aria-current="page">Logga ut</div>
                 </li>
               </>
             )}
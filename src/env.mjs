@@ -33,9 +33,30 @@ export const env = createEnv({
     SWISH_KEY: process.env.VERCEL_URL ? z.string().min(1) : z.string().min(1).optional(),
     SWISH_CA: process.env.VERCEL_URL ? z.string().min(1) : z.string().min(1).optional(),
     USE_DEV_MODE: z.literal("true").or(z.literal("false")).default("false"),
+    SWISH_SIMULATOR: z.literal("true").or(z.literal("false")).default("false"),
+    SWISH_SIMULATOR_OUTCOME: z.enum(["PAID", "DECLINED", "ERROR"]).default("PAID"),
+    SWISH_SIMULATOR_DELAY_MS: z.coerce.number().int().min(0).default(2000),
+    SWISH_SIMULATOR_DUPLICATE_CALLBACKS: z.literal("true").or(z.literal("false")).default("false"),
     CARDSKIPPER_USERNAME: z.string().min(1),
     CARDSKIPPER_PASSWORD: z.string().min(1),
     CARDSKIPPER_ORG_NUMBER: z.string().min(1),
+    // The member sync's field mapping hasn't been checked against a real export yet
+    CARDSKIPPER_SYNC: z.literal("true").or(z.literal("false")).default("false"),
+    TICKET_SECRET: z.string().min(1),
+    // External OpenID Connect login, e.g. BankID through a broker. Disabled without an issuer
+    OIDC_ISSUER: z.string().url().optional(),
+    OIDC_CLIENT_ID: z.string().min(1).optional(),
+    OIDC_CLIENT_SECRET: z.string().min(1).optional(),
+    OIDC_NAME: z.string().min(1).default("BankID"),
+    // memory only counts per server instance, use it for local development
+    RATE_LIMIT_STORE: z.enum(["database", "memory"]).default("database"),
+    REQUIRE_VERIFIED_EMAIL: z.literal("true").or(z.literal("false")).default("false"),
+    // Signs membership wallet passes, they are left unsigned without these
+    WALLET_PASS_TYPE_ID: z.string().min(1).optional(),
+    WALLET_TEAM_ID: z.string().min(1).optional(),
+    WALLET_PASS_CERT: z.string().min(1).optional(),
+    WALLET_PASS_KEY: z.string().min(1).optional(),
+    WALLET_WWDR_CERT: z.string().min(1).optional(),
   },
 
   /**
@@ -71,9 +92,26 @@ export const env = createEnv({
     SWISH_CERT: process.env.SWISH_CERT,
     SWISH_KEY: process.env.SWISH_KEY,
     USE_DEV_MODE: process.env.USE_DEV_MODE,
+    SWISH_SIMULATOR: process.env.SWISH_SIMULATOR,
+    SWISH_SIMULATOR_OUTCOME: process.env.SWISH_SIMULATOR_OUTCOME,
+    SWISH_SIMULATOR_DELAY_MS: process.env.SWISH_SIMULATOR_DELAY_MS,
+    SWISH_SIMULATOR_DUPLICATE_CALLBACKS: process.env.SWISH_SIMULATOR_DUPLICATE_CALLBACKS,
     CARDSKIPPER_USERNAME: process.env.CARDSKIPPER_USERNAME,
     CARDSKIPPER_PASSWORD: process.env.CARDSKIPPER_PASSWORD,
     CARDSKIPPER_ORG_NUMBER: process.env.CARDSKIPPER_ORG_NUMBER,
+    CARDSKIPPER_SYNC: process.env.CARDSKIPPER_SYNC,
+    TICKET_SECRET: process.env.TICKET_SECRET,
+    OIDC_ISSUER: process.env.OIDC_ISSUER,
+    OIDC_CLIENT_ID: process.env.OIDC_CLIENT_ID,
+    OIDC_CLIENT_SECRET: process.env.OIDC_CLIENT_SECRET,
+    OIDC_NAME: process.env.OIDC_NAME,
+    RATE_LIMIT_STORE: process.env.RATE_LIMIT_STORE,
+    REQUIRE_VERIFIED_EMAIL: process.env.REQUIRE_VERIFIED_EMAIL,
+    WALLET_PASS_TYPE_ID: process.env.WALLET_PASS_TYPE_ID,
+    WALLET_TEAM_ID: process.env.WALLET_TEAM_ID,
+    WALLET_PASS_CERT: process.env.WALLET_PASS_CERT,
+    WALLET_PASS_KEY: process.env.WALLET_PASS_KEY,
+    WALLET_WWDR_CERT: process.env.WALLET_WWDR_CERT,
     NEXT_PUBLIC_ENABLE_MEMBERSHIPS: process.env.NEXT_PUBLIC_ENABLE_MEMBERSHIPS,
   },
   /**
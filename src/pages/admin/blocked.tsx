@@ -0,0 +1,63 @@
+import { format } from "date-fns";
+import { useSession } from "next-auth/react";
+import toast from "react-hot-toast";
+import { Button } from "~/components/atoms/Button/Button";
+import Card from "~/components/atoms/CardLink/CardLink";
+import { api } from "~/utils/api";
+import { PERMISSIONS, hasPermission } from "~/utils/permissions";
+
+// Keys look like "login:<email>" or "<procedure>:ip:<address>"
+const describeKey = (key: string) => {
+  const [name, kind, ...rest] = key.split(":");
+  if (name === "login" && kind !== "ip") {
+    return { title: [kind, ...rest].join(":"), reason: "Låst efter misslyckade inloggningar" };
+  }
+  const value = rest.join(":");
+  return {
+    title: value,
+    reason: `För många anrop till ${name ?? ""} från ${kind === "ip" ? "IP-adressen" : "samma användare"}`
+  };
+};
+
+export default function BlockedIdentities() {
+  const { data: sessionData } = useSession();
+  const utils = api.useContext();
+  const { data: blocked } = api.admin.getBlockedIdentities.useQuery(
+    undefined,
+    { enabled: hasPermission(sessionData?.user.role, PERMISSIONS.MANAGE_BLOCKED) }
+  );
+  const { mutate: unblock } = api.admin.unblockIdentity.useMutation({
+    onSuccess: async () => {
+      toast.success("Spärren är borttagen");
+      await utils.admin.getBlockedIdentities.invalidate();
+    },
+    onError: (err) => toast.error(err.message)
+  });
+
+  if (!blocked) {
+    return <p className="text-center">Laddar...</p>
+  }
+
+  return (
+    <div className="flex flex-col justify-center align-middle gap-4">
+      <h2 className="text-center text-xl">Spärrade</h2>
+      <div className="space-y-4 w-full md:w-96 m-auto">
+        {blocked.map((entry) => {
+          const { title, reason } = describeKey(entry.key);
+          return (
+            <Card title={title} key={entry.key}>
+              <p>{reason}</p>
+              {entry.blockedUntil && (
+                <p className="text-sm">Spärrad till {format(entry.blockedUntil, "yyyy-MM-dd HH:mm")}</p>
+              )}
+              <Button onClick={() => unblock({ key: entry.key })}>Ta bort spärr</Button>
+            </Card>
+          );
+        })}
+        {!blocked.length && (
+          <p className="text-center">Inga spärrar just nu</p>
+        )}
+      </div>
+    </div>
+  )
+}
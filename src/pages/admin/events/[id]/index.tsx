@@ -0,0 +1,484 @@
+import { type Bus, type Participant } from "@prisma/client";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/router";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "react-hot-toast";
+import { Button } from "~/components/atoms/Button/Button";
+import { ButtonLink } from "~/components/atoms/ButtonLink/ButtonLink";
+import Card from "~/components/atoms/CardLink/CardLink";
+import { InputField } from "~/components/atoms/InputField/InputField";
+import { OutlinedButton } from "~/components/atoms/OutlinedButton/OutlinedButton";
+import { SelectField } from "~/components/atoms/SelectField/SelectField";
+import { TextArea } from "~/components/atoms/TextArea/TextArea";
+import { api } from "~/utils/api";
+import {
+  type AdminEvent,
+  type QueuedCheckIn,
+  loadCheckInQueue,
+  loadManifest,
+  queueCheckIn,
+  removeFromCheckInQueue,
+  saveManifest,
+  useOfflineShell,
+  useOnlineStatus
+} from "~/utils/offlineCheckIn";
+import { PERMISSIONS, hasPermission } from "~/utils/permissions";
+import { cancellationPolicySchema } from "~/utils/zodSchemas";
+import { format } from "date-fns";
+
+interface PassengerCardProps {
+  passenger: Participant;
+  checkedIn: boolean;
+  onToggleCheckIn: (passenger: Participant) => void;
+  canCheckIn: boolean;
+  canRefund: boolean;
+}
+
+const PassengerCard = ({ passenger, checkedIn, onToggleCheckIn, canCheckIn, canRefund } : PassengerCardProps) => {
+  const { mutateAsync: refundParticipant, isLoading: isRefunding } = api.admin.refundParticipant.useMutation();
+  const utils = api.useContext();
+
+  const handleCheckIn = () => onToggleCheckIn(passenger);
+
+  const handleRefund = async () => {
+    const reason = window.prompt(`Anledning till återbetalningen för ${passenger.name}`);
+    if (!reason) return;
+    const res = await toast.promise(refundParticipant({ participantId: passenger.id, reason }), {
+      success: "Återbetalning påbörjad",
+      error: "Något gick fel, kontakta Filip",
+      loading: "Återbetalar..."
+    });
+    res.failed.map((x) => toast.error(`${x.name}: ${x.error}`));
+    await utils.admin.getRefundProgress.invalidate();
+  }
+  return (
+    <Card>
+      <div className="w-fill rounded-md flex flex-col space-y-2 md">
+        <div className="grid grid-cols-12">
+          <div className="col-span-12 md:col-span-6 flex flex-col">
+            <p className="text-xl">{passenger.name}</p>
+            <a className="underline text-md" href={`mailto:${passenger.email}`}>{passenger.email}</a>
+            <a className="underline text-md" href={`tel:${passenger.phone}`}>{passenger.phone}</a>
+          </div>
+          <div className="col-span-12 md:col-span-6">
+            {passenger.memberVerified && (
+              <p className="text-md w-fit rounded-md bg-green-600 px-2 text-white">Verifierad medlem</p>
+            )}
+            {passenger.member && !passenger.memberVerified && (
+              <p className="text-md">Medlem (ej verifierad)</p>
+            )}
+            {passenger.youth && (
+              <p className="text-md">Ungdom</p>
+            )}
+            {passenger.note && (
+              <p className="text-md">Övrigt: {passenger.note}</p>
+            )}
+          </div>
+        </div>
+        {canCheckIn && checkedIn && (
+          <OutlinedButton className="text-white" onClick={handleCheckIn}>{checkedIn ? 'Checka Ut' : 'Checka In'}</OutlinedButton>
+        )}
+        {canCheckIn && !checkedIn && (
+          <Button onClick={handleCheckIn}>{checkedIn ? 'Checka Ut' : 'Checka In'}</Button>
+        )}
+        {!canCheckIn && checkedIn && (
+          <p className="text-md">Incheckad</p>
+        )}
+        {canRefund && (
+          <OutlinedButton className="text-white" disabled={isRefunding} onClick={handleRefund}>Återbetala</OutlinedButton>
+        )}
+      </div>
+    </Card>
+  )
+}
+
+const WaitlistCard = ({ eventId, canManage } : { eventId: string, canManage: boolean }) => {
+  const { data: waitlist, refetch } = api.admin.getWaitlist.useQuery({ eventId });
+  const { mutateAsync: moveEntry, isLoading: isMoving } = api.admin.moveWaitlistEntry.useMutation();
+  const { mutateAsync: removeEntry, isLoading: isRemoving } = api.admin.removeWaitlistEntry.useMutation();
+
+  if (!waitlist || waitlist.length === 0) {
+    return null;
+  }
+
+  const handleMove = async (id: string, direction: "up" | "down") => {
+    await moveEntry({ id, direction });
+    await refetch();
+  }
+
+  const handleRemove = async (id: string) => {
+    await toast.promise(removeEntry({ id }), {
+      success: "Borttagen från kön",
+      error: "Något gick fel, kontakta Filip",
+      loading: "Tar bort..."
+    });
+    await refetch();
+  }
+
+  return (
+    <Card title={`Kö (${waitlist.length})`}>
+      <div className="divide-y divide-gray-100 space-y-4">
+        {waitlist.map((entry, index) => (
+          <div key={entry.id} className="flex flex-col space-y-2 pt-2">
+            <p className="text-lg">{index + 1}. {entry.name}</p>
+            <a className="underline text-md" href={`mailto:${entry.email}`}>{entry.email}</a>
+            <a className="underline text-md" href={`tel:${entry.phone}`}>{entry.phone}</a>
+            {entry.bus && (
+              <p className="text-md">Buss: {entry.bus.name}</p>
+            )}
+            {entry.status === "OFFERED" && entry.offerExpiresAt && (
+              <p className="text-md">Erbjuden plats, giltig till {format(entry.offerExpiresAt, "yyyy-MM-dd HH:mm")}</p>
+            )}
+            {canManage && (
+              <div className="grid grid-cols-3 gap-2">
+                <OutlinedButton className="text-white" disabled={isMoving || entry.status !== "WAITING"} onClick={() => handleMove(entry.id, "up")}>Upp</OutlinedButton>
+                <OutlinedButton className="text-white" disabled={isMoving || entry.status !== "WAITING"} onClick={() => handleMove(entry.id, "down")}>Ner</OutlinedButton>
+                <Button disabled={isRemoving} onClick={() => handleRemove(entry.id)}>Ta bort</Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </Card>
+  )
+}
+
+const refundStateLabels = {
+  REFUNDED: "Återbetald",
+  PENDING: "Pågår",
+  FAILED: "Misslyckades"
+};
+
+const RefundCard = ({ eventId, bus } : { eventId: string, bus: Bus | null }) => {
+  const [reason, setReason] = useState("");
+  const { data: progress, refetch } = api.admin.getRefundProgress.useQuery(
+    { eventId },
+    // Follow the refunds live until Swish has answered for all of them
+    { refetchInterval: (data) => data?.pending ? 2000 : false }
+  );
+  const { mutateAsync: refundBus, isLoading: isRefundingBus } = api.admin.refundBus.useMutation();
+  const { mutateAsync: refundEvent, isLoading: isRefundingEvent } = api.admin.refundEvent.useMutation();
+
+  const handleRefund = async (target: "bus" | "event") => {
+    if (!reason) {
+      toast.error("Ange en anledning");
+      return;
+    }
+    const confirmation = target === "bus"
+      ? `Återbetala alla resenärer på ${bus?.name ?? ""}?`
+      : "Återbetala alla resenärer på hela resan?";
+    if (!window.confirm(confirmation)) return;
+    const refund = target === "bus" && bus
+      ? refundBus({ busId: bus.id, reason })
+      : refundEvent({ eventId, reason });
+    const res = await toast.promise(refund, {
+      success: "Återbetalningar påbörjade",
+      error: "Något gick fel, kontakta Filip",
+      loading: "Återbetalar..."
+    });
+    res.failed.map((x) => toast.error(`${x.name}: ${x.error}`));
+    await refetch();
+  }
+
+  return (
+    <Card title="Återbetalningar">
+      <div className="flex flex-col space-y-4">
+        <TextArea
+          label="Anledning (skickas till resenärerna)"
+          placeholder="Matchen är flyttad..."
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <OutlinedButton className="text-white" disabled={!bus || isRefundingBus} onClick={() => handleRefund("bus")}>
+            Återbetala bussen
+          </OutlinedButton>
+          <Button disabled={isRefundingEvent} onClick={() => handleRefund("event")}>
+            Återbetala hela resan
+          </Button>
+        </div>
+        {progress && progress.refunds.length > 0 && (
+          <div className="space-y-2">
+            <p>
+              {progress.refunded} återbetalda, {progress.pending} pågår, {progress.failed} misslyckade
+            </p>
+            <div className="divide-y divide-gray-100">
+              {progress.refunds.map((refund) => (
+                <div key={refund.id} className="flex justify-between py-1">
+                  <span>{refund.name}{refund.busName ? ` (${refund.busName})` : ''}</span>
+                  <span>{refund.state ? refundStateLabels[refund.state] : ''}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  )
+}
+
+interface Tier {
+  hoursBeforeDeparture: number;
+  refundPercentage: number;
+}
+
+const CancellationPolicyCard = ({ eventId, canEdit } : { eventId: string, canEdit: boolean }) => {
+  const { data: policy, refetch } = api.admin.getCancellationPolicy.useQuery({ eventId });
+  const { mutateAsync: updatePolicy, isLoading } = api.admin.updateCancellationPolicy.useMutation();
+  const [fee, setFee] = useState(0);
+  const [tiers, setTiers] = useState<Tier[]>([]);
+
+  useEffect(() => {
+    if (policy) {
+      setFee(policy.fee);
+      setTiers(policy.tiers.map(({ hoursBeforeDeparture, refundPercentage }) => ({ hoursBeforeDeparture, refundPercentage })));
+    }
+  }, [policy])
+
+  const updateTier = (index: number, tier: Partial<Tier>) => {
+    setTiers(tiers.map((x, i) => i === index ? { ...x, ...tier } : x));
+  }
+
+  const handleSave = async () => {
+    const payload = cancellationPolicySchema.safeParse({ eventId, fee, tiers });
+    if (!payload.success) {
+      payload.error.issues.map((x) => toast.error(x.message));
+      return;
+    }
+    await toast.promise(updatePolicy(payload.data), {
+      success: "Avbokningsregler sparade",
+      error: "Något gick fel, kontakta Filip",
+      loading: "Sparar..."
+    });
+    await refetch();
+  }
+
+  return (
+    <Card title="Avbokningsregler">
+      <div className="flex flex-col space-y-4">
+        {policy?.isDefault && (
+          <p className="text-sm">Standardregler används, full återbetalning fram till 48 timmar före avresa.</p>
+        )}
+        {tiers.map((tier, index) => (
+          <div key={index} className="grid grid-cols-3 gap-2 items-end">
+            <InputField
+              label="Timmar före avresa"
+              type="number"
+              disabled={!canEdit}
+              min={0}
+              value={tier.hoursBeforeDeparture}
+              onChange={(e) => updateTier(index, { hoursBeforeDeparture: Number(e.target.value) })}
+            />
+            <InputField
+              label="Återbetalning (%)"
+              type="number"
+              disabled={!canEdit}
+              min={0}
+              max={100}
+              value={tier.refundPercentage}
+              onChange={(e) => updateTier(index, { refundPercentage: Number(e.target.value) })}
+            />
+            <OutlinedButton className="text-white" disabled={!canEdit} onClick={() => setTiers(tiers.filter((_, i) => i !== index))}>Ta bort</OutlinedButton>
+          </div>
+        ))}
+        {canEdit && (
+          <OutlinedButton className="text-white" onClick={() => setTiers([...tiers, { hoursBeforeDeparture: 0, refundPercentage: 0 }])}>
+            Lägg till gräns
+          </OutlinedButton>
+        )}
+        <InputField
+          label="Avgift per resenär (kr)"
+          type="number"
+          disabled={!canEdit}
+          min={0}
+          value={fee}
+          onChange={(e) => setFee(Number(e.target.value))}
+        />
+        {canEdit && (
+          <Button disabled={isLoading} onClick={handleSave}>Spara</Button>
+        )}
+      </div>
+    </Card>
+  )
+}
+
+const ManifestCard = ({ eventId, bus } : { eventId: string, bus: Bus | null }) => {
+  const manifestUrl = (format: "csv" | "pdf", busId?: string) =>
+    `/api/admin/manifest?${new URLSearchParams({ eventId, format, ...(busId && { busId }) }).toString()}`;
+
+  return (
+    <Card title="Resenärslistor">
+      <div className="flex flex-col space-y-2">
+        {bus && (
+          <div className="flex space-x-2">
+            <ButtonLink className="flex-1" href={manifestUrl("pdf", bus.id)} prefetch={false} download>
+              {bus.name} (PDF)
+            </ButtonLink>
+            <ButtonLink className="flex-1" href={manifestUrl("csv", bus.id)} prefetch={false} download>
+              {bus.name} (CSV)
+            </ButtonLink>
+          </div>
+        )}
+        <div className="flex space-x-2">
+          <ButtonLink className="flex-1" href={manifestUrl("pdf")} prefetch={false} download>
+            Alla bussar (PDF)
+          </ButtonLink>
+          <ButtonLink className="flex-1" href={manifestUrl("csv")} prefetch={false} download>
+            Alla bussar (CSV)
+          </ButtonLink>
+        </div>
+      </div>
+    </Card>
+  )
+}
+
+export const AdminEventPage = () => {
+  const { query } = useRouter();
+  const { data: sessionData } = useSession();
+  const eventId = query.id as string;
+  const isOnline = useOnlineStatus();
+  const utils = api.useContext();
+  const role = sessionData?.user.role;
+  const canViewEvents = hasPermission(role, PERMISSIONS.VIEW_EVENTS);
+  const canCheckIn = hasPermission(role, PERMISSIONS.CHECK_IN);
+  const { data: liveEvent, isLoading } = api.admin.getEvent.useQuery(
+    { id: eventId },
+    { enabled: (canViewEvents || canCheckIn) && !!eventId }
+  );
+  const { mutateAsync: syncCheckIns } = api.admin.syncCheckIns.useMutation();
+
+  // Used when the manifest can't be fetched, e.g. without coverage at departure
+  const [cachedEvent, setCachedEvent] = useState<AdminEvent | null>(null);
+  const [checkInQueue, setCheckInQueue] = useState<QueuedCheckIn[]>([]);
+  const [selectedBusId, setSelectedBusId] = useState<string | null>(null);
+  const isSyncing = useRef(false);
+  useOfflineShell();
+
+  const event = liveEvent ?? cachedEvent;
+  const selectedBus = event?.buses.find((bus) => bus.id === selectedBusId) ?? event?.buses[0] ?? null;
+
+  useEffect(() => {
+    if (eventId) {
+      setCachedEvent(loadManifest(eventId));
+      setCheckInQueue(loadCheckInQueue(eventId));
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    if (liveEvent) {
+      saveManifest(liveEvent);
+    }
+  }, [liveEvent]);
+
+  const syncQueue = useCallback(async () => {
+    const pending = loadCheckInQueue(eventId);
+    if (!pending.length || isSyncing.current) {
+      return;
+    }
+    isSyncing.current = true;
+    try {
+      const res = await syncCheckIns({ eventId, changes: pending, sentAt: new Date() });
+      setCheckInQueue(removeFromCheckInQueue(eventId, pending));
+      res.conflicts.forEach((conflict) =>
+        toast.error(`${conflict.name} ändrades av en annan värd och är ${conflict.checkedIn ? "incheckad" : "utcheckad"}`)
+      );
+      if (res.skipped.length) {
+        toast.error(`${res.skipped.length} incheckningar gällde resenärer som inte längre finns på resan`);
+      }
+      await utils.admin.getEvent.invalidate({ id: eventId });
+    } catch (error) {
+      // Stays queued until the connection is back
+      console.error(error);
+    } finally {
+      isSyncing.current = false;
+    }
+  }, [eventId, syncCheckIns, utils]);
+
+  useEffect(() => {
+    if (isOnline && eventId) {
+      void syncQueue();
+    }
+  }, [isOnline, eventId, syncQueue]);
+
+  const getCheckedIn = (passenger: Participant) =>
+    checkInQueue.find((x) => x.participantId === passenger.id)?.checkedIn ?? passenger.checkedIn;
+
+  const handleToggleCheckIn = (passenger: Participant) => {
+    const checkedIn = !getCheckedIn(passenger);
+    setCheckInQueue(queueCheckIn(eventId, {
+      participantId: passenger.id,
+      checkedIn,
+      changedAt: new Date(),
+      baseUpdatedAt: passenger.checkedInUpdatedAt
+    }));
+    toast.success(`${passenger.name} ${checkedIn ? 'incheckad' : 'utcheckad'}`);
+    if (isOnline) {
+      void syncQueue();
+    }
+  };
+
+  if (!event && isLoading) {
+    return <p className="text-center">{isOnline ? "Laddar event..." : "Resan finns inte sparad offline"}</p>
+  }
+
+  if (!event) {
+    return <p className="text-center">Resan hittades inte</p>
+  }
+
+  return (
+    <div className="flex flex-col space-y-2 md:w-5/12 m-auto">
+      <h1 className="text-center text-3xl mb-8 mt-10">
+        {event?.name}
+      </h1>
+      {(!isOnline || checkInQueue.length > 0) && (
+        <p className="rounded-md border p-2 text-center">
+          {isOnline ? "Synkar" : "Offline"}: {checkInQueue.length} incheckningar väntar på att skickas
+        </p>
+      )}
+      {canCheckIn && (
+        <ButtonLink href={`/admin/events/${eventId}/scan`}>Skanna biljetter</ButtonLink>
+      )}
+      <Card>
+        <SelectField
+          label="Buss"
+          options={event?.buses.map((bus) => ({ label: bus.name, value: bus.id })) || []}
+          value={selectedBus?.id || ""}
+          onChange={(e) => setSelectedBusId(e.target.value)}
+        />
+      </Card>
+      {selectedBus && selectedBus.passengers.length > 0 && (
+        <div key={selectedBus.id} className="flex flex-col space-y-4">
+        {selectedBus.passengers.map((passenger) => (
+          <PassengerCard
+            key={passenger.id}
+            passenger={passenger}
+            checkedIn={getCheckedIn(passenger)}
+            onToggleCheckIn={handleToggleCheckIn}
+            canCheckIn={canCheckIn}
+            canRefund={hasPermission(role, PERMISSIONS.REFUND_PAYMENTS)}
+          />
+        ))}
+      </div>
+      )}
+      {selectedBus && selectedBus.passengers.length === 0 && (
+        <p>Inga passagerare på denna buss</p>
+      )}
+      {event && (
+        <ManifestCard eventId={event.id} bus={selectedBus} />
+      )}
+      {event && canViewEvents && (
+        <WaitlistCard eventId={event.id} canManage={hasPermission(role, PERMISSIONS.MANAGE_EVENTS)} />
+      )}
+      {event && hasPermission(role, PERMISSIONS.REFUND_PAYMENTS) && (
+        <RefundCard eventId={event.id} bus={selectedBus} />
+      )}
+      {event && canViewEvents && (
+        <CancellationPolicyCard eventId={event.id} canEdit={hasPermission(role, PERMISSIONS.MANAGE_EVENTS)} />
+      )}
+    </div>
+  )
+};
+
+
+export default AdminEventPage;
+
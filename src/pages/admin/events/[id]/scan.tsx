@@ -0,0 +1,79 @@
+import { TRPCClientError } from "@trpc/client";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/router";
+import { useRef, useState } from "react";
+import { ButtonLink } from "~/components/atoms/ButtonLink/ButtonLink";
+import Card from "~/components/atoms/CardLink/CardLink";
+import { TicketScanner } from "~/components/common/TicketScanner/TicketScanner";
+import { api } from "~/utils/api";
+import { PERMISSIONS, hasPermission } from "~/utils/permissions";
+
+// How long a result is shown before the next ticket can be scanned
+const RESULT_DELAY_MS = 2000;
+
+interface ScanResult {
+  success: boolean;
+  message: string;
+}
+
+export const AdminScanPage = () => {
+  const { query } = useRouter();
+  const { data: sessionData } = useSession();
+  const eventId = query.id as string;
+  const { data: event } = api.admin.getEvent.useQuery(
+    { id: eventId },
+    { enabled: hasPermission(sessionData?.user.role, PERMISSIONS.CHECK_IN) && !!eventId }
+  );
+  const { mutateAsync: checkInTicket } = api.admin.checkInTicket.useMutation();
+  const [isChecking, setIsChecking] = useState(false);
+  // The camera reads several frames before the state update lands
+  const isCheckingRef = useRef(false);
+  const [result, setResult] = useState<ScanResult | null>(null);
+
+  const handleScan = async (token: string) => {
+    if (isCheckingRef.current) {
+      return;
+    }
+    isCheckingRef.current = true;
+    setIsChecking(true);
+    try {
+      const res = await checkInTicket({ token, eventId });
+      setResult({
+        success: true,
+        message: res.busName ? `${res.name} incheckad på ${res.busName}` : `${res.name} incheckad`
+      });
+    } catch (error) {
+      setResult({
+        success: false,
+        message: error instanceof TRPCClientError ? error.message : "Något gick fel"
+      });
+    }
+    setTimeout(() => {
+      isCheckingRef.current = false;
+      setIsChecking(false);
+    }, RESULT_DELAY_MS);
+  };
+
+  return (
+    <div className="flex flex-col space-y-4 md:w-5/12 m-auto">
+      <h1 className="text-center text-3xl mt-10">
+        {event?.name}
+      </h1>
+      <Card title="Skanna biljett">
+        <TicketScanner onScan={handleScan} paused={isChecking} />
+        {result && (
+          <p
+            className={`rounded-md p-4 text-center text-lg font-semibold text-white ${
+              result.success ? "bg-green-600" : "bg-red-600"
+            }`}
+          >
+            {result.message}
+          </p>
+        )}
+      </Card>
+      <ButtonLink href={`/admin/events/${eventId}`}>Tillbaka till resan</ButtonLink>
+    </div>
+  )
+};
+
+export default AdminScanPage;
@@ -1,10 +1,10 @@
-import { Role } from "@prisma/client";
 import { type inferRouterOutputs } from "@trpc/server";
 import { useSession } from "next-auth/react";
 import Card from "~/components/atoms/CardLink/CardLink";
 import { Progressbar } from "~/components/atoms/Progressbar/Progressbar";
 import { type AppRouter } from "~/server/api/root";
 import { api } from "~/utils/api";
+import { PERMISSIONS, hasPermission } from "~/utils/permissions";
 
 type Events = inferRouterOutputs<AppRouter>['admin']['getEvents']['pastEvents' | 'upcomingEvents']
 
@@ -28,10 +28,12 @@ export const EventGrid = ({ events }: { events: Events }) => {
 
 export default function AdminEvent() {
   const { data: sessionData } = useSession();
+  const role = sessionData?.user.role;
 
+  // Bus hosts only get the events they are assigned
   const { data: events } = api.admin.getEvents.useQuery(
     undefined,
-    { enabled: !!sessionData?.user && sessionData.user.role === Role.ADMIN }
+    { enabled: hasPermission(role, PERMISSIONS.VIEW_EVENTS) || hasPermission(role, PERMISSIONS.CHECK_IN) }
     );
 
   if (!events) {
@@ -1,27 +1,30 @@
-import { Role } from "@prisma/client";
 import { useSession } from "next-auth/react";
 import { ButtonLink } from "~/components/atoms/ButtonLink/ButtonLink";
 import Card from "~/components/atoms/CardLink/CardLink";
 import { Progressbar } from "~/components/atoms/Progressbar/Progressbar";
 import { api } from "~/utils/api";
 import { featureFlags } from "~/utils/featureFlags";
+import { PERMISSIONS, hasPermission } from "~/utils/permissions";
 
 export default function Admin() {
   const { data: sessionData } = useSession();
+  const role = sessionData?.user.role;
+  const canSeeEvents = hasPermission(role, PERMISSIONS.VIEW_EVENTS) || hasPermission(role, PERMISSIONS.CHECK_IN);
+  const canSeeMembers = featureFlags.ENABLE_MEMBERSHIPS && hasPermission(role, PERMISSIONS.VIEW_MEMBERS);
 
   const { data: events } = api.admin.getEvents.useQuery(
     undefined,
-    { enabled: !!sessionData?.user && sessionData.user.role === Role.ADMIN }
+    { enabled: canSeeEvents }
     );
 
   const { data: members } = api.admin.getActiveMembers.useQuery(
     undefined,
-    { enabled: !!sessionData?.user && sessionData.user.role === Role.ADMIN }
+    { enabled: canSeeMembers }
   );
-  if (!events || !members) {
+  if (!sessionData || (canSeeEvents && !events) || (canSeeMembers && !members)) {
     return <p className="text-center">Laddar...</p>
   }
-  const { upcomingEvents } = events;
+  const upcomingEvents = events?.upcomingEvents ?? [];
 
   const seats = upcomingEvents.reduce((acc, event) => {
     const bookedSeats = event.buses.reduce((acc, bus) => {
@@ -34,8 +37,8 @@ export default function Admin() {
   }, { bookedSeats: 0, totalSeats: 0 })
   return (
     <div className="flex flex-col md:flex-row justify-center align-middle gap-4">
-      {featureFlags.ENABLE_MEMBERSHIPS && (
-        <Card 
+      {canSeeMembers && members && (
+        <Card
           title="Antal medlemmar"
           link="/admin/event"
           className="w-full md:w-96 space-y-0 md:h-52"
@@ -45,24 +48,46 @@ export default function Admin() {
           <ButtonLink href="/admin/members" className="w-full">Hantera medlemmar</ButtonLink>
         </Card>
       )}
-      <Card 
-        title="Kommande bussresor"
-        link="/admin/event"
-        className="w-full md:w-96 space-y-0 md:h-52"
-        contentClassName="flex flex-col justify-between h-full"
-      >
-        {seats.totalSeats > 0 && (
-          <Progressbar 
-            label="Total bokade platser"
-            maxValue={seats.totalSeats}
-            currentValue={seats.bookedSeats}
-          />
-        )}
-        {seats.totalSeats === 0 && (
-          <p className="text-center">Ingen resa planerad</p>
-        )}
-        <ButtonLink href="/admin/events" className="w-full">Se alla bussresor</ButtonLink>
-      </Card>
+      {canSeeEvents && (
+        <Card
+          title="Kommande bussresor"
+          link="/admin/event"
+          className="w-full md:w-96 space-y-0 md:h-52"
+          contentClassName="flex flex-col justify-between h-full"
+        >
+          {seats.totalSeats > 0 && (
+            <Progressbar
+              label="Total bokade platser"
+              maxValue={seats.totalSeats}
+              currentValue={seats.bookedSeats}
+            />
+          )}
+          {seats.totalSeats === 0 && (
+            <p className="text-center">Ingen resa planerad</p>
+          )}
+          <ButtonLink href="/admin/events" className="w-full">Se alla bussresor</ButtonLink>
+        </Card>
+      )}
+      {hasPermission(role, PERMISSIONS.MANAGE_BLOCKED) && (
+        <Card
+          title="Spärrade"
+          className="w-full md:w-96 space-y-0 md:h-52"
+          contentClassName="flex flex-col justify-between h-full"
+        >
+          <p>Inloggningar och anrop som spärrats efter för många försök</p>
+          <ButtonLink href="/admin/blocked" className="w-full">Visa spärrade</ButtonLink>
+        </Card>
+      )}
+      {hasPermission(role, PERMISSIONS.MANAGE_ROLES) && (
+        <Card
+          title="Roller"
+          className="w-full md:w-96 space-y-0 md:h-52"
+          contentClassName="flex flex-col justify-between h-full"
+        >
+          <p>Vem som är kassör, medlemsansvarig eller bussvärd</p>
+          <ButtonLink href="/admin/roles" className="w-full">Hantera roller</ButtonLink>
+        </Card>
+      )}
     </div>
   )
 }
@@ -1,10 +1,10 @@
-import { Role } from "@prisma/client";
 import { type inferRouterOutputs } from "@trpc/server";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/router";
 import Card from "~/components/atoms/CardLink/CardLink";
 import { type AppRouter } from "~/server/api/root";
 import { api } from "~/utils/api";
+import { PERMISSIONS, hasPermission } from "~/utils/permissions";
 
 type AdminUser = NonNullable<inferRouterOutputs<AppRouter>['admin']['getMemberById']>
 
@@ -30,7 +30,7 @@ export default function AdminMemberPage() {
   const { query } = useRouter();
   const { data: member } = api.admin.getMemberById.useQuery(
     { id: query.id as string },
-    { enabled: !!sessionData?.user && sessionData.user.role === Role.ADMIN && !!query.id }
+    { enabled: hasPermission(sessionData?.user.role, PERMISSIONS.VIEW_MEMBERS) && !!query.id }
   );
 
   if (!member) {
@@ -1,9 +1,9 @@
-import { Role } from "@prisma/client";
 import { useSession } from "next-auth/react";
 import { useState } from "react";
 import Card from "~/components/atoms/CardLink/CardLink";
 import { InputField } from "~/components/atoms/InputField/InputField";
 import { api } from "~/utils/api";
+import { PERMISSIONS, hasPermission } from "~/utils/permissions";
 import Fuse from 'fuse.js';
 
 const fuseOptions = {
@@ -22,7 +22,7 @@ export default function Admin() {
   const [search, setSearch] = useState("");
   const { data: members } = api.admin.getActiveMembers.useQuery(
     undefined,
-    { enabled: !!sessionData?.user && sessionData.user.role === Role.ADMIN }
+    { enabled: hasPermission(sessionData?.user.role, PERMISSIONS.VIEW_MEMBERS) }
   );
 
   if (!members) {
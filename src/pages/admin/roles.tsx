@@ -0,0 +1,154 @@
+import { Role } from "@prisma/client";
+import { type inferRouterOutputs } from "@trpc/server";
+import { format } from "date-fns";
+import { useSession } from "next-auth/react";
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { Button } from "~/components/atoms/Button/Button";
+import Card from "~/components/atoms/CardLink/CardLink";
+import { InputField } from "~/components/atoms/InputField/InputField";
+import { OutlinedButton } from "~/components/atoms/OutlinedButton/OutlinedButton";
+import { SelectField } from "~/components/atoms/SelectField/SelectField";
+import { type AppRouter } from "~/server/api/root";
+import { api } from "~/utils/api";
+import { PERMISSIONS, friendlyRoleNames, hasPermission } from "~/utils/permissions";
+
+type StaffMember = inferRouterOutputs<AppRouter>['admin']['getStaff'][number];
+type Events = inferRouterOutputs<AppRouter>['admin']['getEvents']['upcomingEvents'];
+
+const roleOptions = Object.values(Role).map((role) => ({ label: friendlyRoleNames[role], value: role }));
+
+// Empty bus means the host can check in on every bus of the event
+const BusHostAssignments = ({ host, events } : { host: StaffMember, events: Events }) => {
+  const utils = api.useContext();
+  const [eventId, setEventId] = useState("");
+  const [busId, setBusId] = useState("");
+  const onSuccess = async () => {
+    await utils.admin.getStaff.invalidate();
+  };
+  const { mutateAsync: assign, isLoading: isAssigning } = api.admin.assignBusHost.useMutation({ onSuccess });
+  const { mutate: remove } = api.admin.removeBusHostAssignment.useMutation({
+    onSuccess,
+    onError: (err) => toast.error(err.message)
+  });
+  const event = events.find((x) => x.id === eventId);
+
+  const handleAssign = async () => {
+    if (!eventId) {
+      toast.error("Välj en resa");
+      return;
+    }
+    await toast.promise(assign({ userId: host.id, eventId, busId: busId || null }), {
+      success: "Bussvärd tillagd",
+      error: (err: Error) => err.message,
+      loading: "Sparar..."
+    });
+    setBusId("");
+  };
+
+  return (
+    <div className="flex flex-col space-y-2">
+      {host.busHostAssignments.map((assignment) => (
+        <div key={assignment.id} className="flex justify-between items-center">
+          <span>
+            {assignment.event.name} ({format(assignment.event.date, "yyyy-MM-dd")}), {assignment.bus?.name ?? "alla bussar"}
+          </span>
+          <OutlinedButton className="text-white" onClick={() => remove({ id: assignment.id })}>Ta bort</OutlinedButton>
+        </div>
+      ))}
+      {!host.busHostAssignments.length && (
+        <p className="text-sm">Inte bussvärd på någon resa</p>
+      )}
+      <SelectField
+        label="Resa"
+        options={[{ label: "Välj resa", value: "" }, ...events.map((x) => ({ label: x.name, value: x.id }))]}
+        value={eventId}
+        onChange={(e) => {
+          setEventId(e.target.value);
+          setBusId("");
+        }}
+      />
+      {event && (
+        <SelectField
+          label="Buss"
+          options={[{ label: "Alla bussar", value: "" }, ...event.buses.map((bus) => ({ label: bus.name, value: bus.id }))]}
+          value={busId}
+          onChange={(e) => setBusId(e.target.value)}
+        />
+      )}
+      <Button disabled={isAssigning} onClick={handleAssign}>Lägg till</Button>
+    </div>
+  );
+};
+
+export default function AdminRoles() {
+  const { data: sessionData } = useSession();
+  const canManageRoles = hasPermission(sessionData?.user.role, PERMISSIONS.MANAGE_ROLES);
+  const utils = api.useContext();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<Role>(Role.BUS_HOST);
+  const { data: staff } = api.admin.getStaff.useQuery(
+    undefined,
+    { enabled: canManageRoles }
+  );
+  const { data: events } = api.admin.getEvents.useQuery(
+    undefined,
+    { enabled: canManageRoles }
+  );
+  const { mutateAsync: setUserRole, isLoading } = api.admin.setUserRole.useMutation({
+    onSuccess: async () => {
+      await utils.admin.getStaff.invalidate();
+    }
+  });
+
+  if (!staff || !events) {
+    return <p className="text-center">Laddar...</p>
+  }
+
+  const handleSetRole = async (userEmail: string, userRole: Role) => {
+    await toast.promise(setUserRole({ email: userEmail, role: userRole }), {
+      success: "Rollen är sparad",
+      error: (err: Error) => err.message,
+      loading: "Sparar..."
+    });
+  };
+
+  return (
+    <div className="flex flex-col justify-center align-middle gap-4">
+      <h2 className="text-center text-xl">Roller</h2>
+      <div className="space-y-4 w-full md:w-96 m-auto">
+        <Card title="Ge en användare en roll">
+          <div className="flex flex-col space-y-2">
+            <InputField
+              label="Email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+            <SelectField
+              label="Roll"
+              options={roleOptions}
+              value={role}
+              onChange={(e) => setRole(e.target.value as Role)}
+            />
+            <Button disabled={isLoading || !email} onClick={() => handleSetRole(email, role)}>Spara</Button>
+          </div>
+        </Card>
+        {staff.map((member) => (
+          <Card title={`${member.firstName} ${member.lastName}`} key={member.id}>
+            <p>{member.email}</p>
+            <p className="text-md">{friendlyRoleNames[member.role]}</p>
+            {member.role === Role.BUS_HOST && (
+              <BusHostAssignments host={member} events={events.upcomingEvents} />
+            )}
+            {member.id !== sessionData?.user.id && member.email && (
+              <OutlinedButton className="text-white" disabled={isLoading} onClick={() => handleSetRole(member.email as string, Role.USER)}>
+                Ta bort roll
+              </OutlinedButton>
+            )}
+          </Card>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { type NextApiRequest, type NextApiResponse } from "next";
+import { z } from "zod";
+import { appRouter } from "~/server/api/root";
+import { createTRPCContext } from "~/server/api/trpc";
+import {
+  createManifestCsv,
+  createManifestPdf,
+  manifestFileName
+} from "~/server/utils/manifest";
+
+const manifestQuerySchema = z.object({
+  eventId: z.string(),
+  busId: z.string().optional(),
+  format: z.enum(["csv", "pdf"]).default("csv")
+});
+
+// filename* carries the real name, older clients fall back to plain ASCII
+const contentDisposition = (fileName: string) => {
+  const asciiName = fileName.normalize("NFD").replace(/[^\x20-\x7e]/g, "").replace(/["\\]/g, "");
+  return `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+};
+
+/**
+ * GET /api/admin/manifest?eventId=..&busId=..&format=csv|pdf
+ * Leave out busId to get every bus on the event.
+ */
+const manifest = async (req: NextApiRequest, res: NextApiResponse) => {
+  const query = manifestQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json(query.error.issues);
+  }
+  const { eventId, busId, format } = query.data;
+
+  const ctx = await createTRPCContext({ req, res });
+  const caller = appRouter.createCaller(ctx);
+  try {
+    const event = await caller.admin.getManifest({ eventId, busId });
+    const fileName = manifestFileName(event, format);
+    res.setHeader("Content-Disposition", contentDisposition(fileName));
+    if (format === "pdf") {
+      res.setHeader("Content-Type", "application/pdf");
+      return res.status(200).send(createManifestPdf(event));
+    }
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    return res.status(200).send(createManifestCsv(event));
+  } catch (cause) {
+    if (cause instanceof TRPCError) {
+      const httpCode = getHTTPStatusCodeFromError(cause);
+      return res.status(httpCode).json(cause);
+    }
+    console.error(cause);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+export default manifest;
@@ -0,0 +1,34 @@
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { type NextApiRequest, type NextApiResponse } from "next";
+import { appRouter } from "~/server/api/root";
+import { createTRPCContext } from "~/server/api/trpc";
+
+/**
+ * GET /api/membership-cards/:token - verifies a scanned membership card.
+ * Partner systems asking for JSON get the result, anyone else (e.g. a phone
+ * camera) is sent to the verification page.
+ */
+const verifyMembershipCard = async (req: NextApiRequest, res: NextApiResponse) => {
+  const token = req.query.token as string;
+  if (!req.headers.accept?.includes("application/json")) {
+    return res.redirect(302, `/medlem/kort/${encodeURIComponent(token)}`);
+  }
+
+  const ctx = await createTRPCContext({ req, res });
+  const caller = appRouter.createCaller(ctx);
+  try {
+    const card = await caller.public.verifyMembershipCard({ token });
+    res.setHeader("Cache-Control", "no-store");
+    return res.status(200).json(card);
+  } catch (cause) {
+    if (cause instanceof TRPCError) {
+      const httpCode = getHTTPStatusCodeFromError(cause);
+      return res.status(httpCode).json(cause);
+    }
+    console.error(cause);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+export default verifyMembershipCard;
@@ -0,0 +1,31 @@
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { type NextApiRequest, type NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import {
+  createMembershipPass,
+  getMembershipCard
+} from "~/server/utils/membershipCard";
+
+/**
+ * GET /api/membership-cards/:token/pass - the card as a wallet pass
+ */
+const membershipPass = async (req: NextApiRequest, res: NextApiResponse) => {
+  const token = req.query.token as string;
+  try {
+    const card = await getMembershipCard(token, prisma);
+    const pass = await createMembershipPass(token, card);
+    res.setHeader("Content-Type", "application/vnd.apple.pkpass");
+    res.setHeader("Content-Disposition", `attachment; filename="medlemskort.pkpass"`);
+    return res.status(200).send(pass);
+  } catch (cause) {
+    if (cause instanceof TRPCError) {
+      const httpCode = getHTTPStatusCodeFromError(cause);
+      return res.status(httpCode).json(cause);
+    }
+    console.error(cause);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+export default membershipPass;
@@ -0,0 +1,26 @@
+import { type NextApiRequest, type NextApiResponse } from "next";
+import QRCode from "qrcode";
+import {
+  createMembershipCardUrl,
+  verifyMembershipCardToken
+} from "~/server/utils/membershipCard";
+
+/**
+ * GET /api/membership-cards/:token/qr - the card's QR code as an image
+ */
+const membershipCardQr = async (req: NextApiRequest, res: NextApiResponse) => {
+  const token = req.query.token as string;
+  if (!verifyMembershipCardToken(token)) {
+    return res.status(404).end();
+  }
+  const image = await QRCode.toBuffer(createMembershipCardUrl(token), {
+    type: "png",
+    width: 300,
+    margin: 2
+  });
+  res.setHeader("Content-Type", "image/png");
+  res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+  return res.status(200).send(image);
+};
+
+export default membershipCardQr;
@@ -0,0 +1,97 @@
+import { type NextApiRequest, type NextApiResponse } from "next";
+import { z } from "zod";
+import { env } from "~/env.mjs";
+import {
+  createSimulatedPayment,
+  createSimulatedRefund,
+  getSimulatedPayment,
+  getSimulatedRefund,
+  getSimulatorConfig,
+  isAllowedCallbackUrl,
+  updateSimulatorConfig
+} from "~/server/utils/swishSimulator";
+import {
+  type PaymentRequest,
+  type RefundRequest,
+  isSwishSimulatorEnabled
+} from "~/utils/swishHelpers";
+
+const simulatorConfigSchema = z
+  .object({
+    outcome: z.enum(["PAID", "DECLINED", "ERROR"]),
+    delayMs: z.number().int().min(0),
+    duplicateCallbacks: z.boolean(),
+    skipCallbacks: z.boolean()
+  })
+  .partial();
+
+/**
+ * Routes:
+ *  PUT /v2/paymentrequests/:id
+ *  GET /v1/paymentrequests/:id
+ *  PUT /v2/refunds/:id
+ *  GET /v1/refunds/:id
+ *  GET|PUT /config - read or change the outcome of new requests
+ */
+const swishSimulator = (req: NextApiRequest, res: NextApiResponse) => {
+  if (!isSwishSimulatorEnabled) {
+    return res.status(404).end();
+  }
+
+  const [version, resource, id] = (req.query.path as string[]) ?? [];
+  const location = `${env.SWISH_MERCHANT_BASEURL}/v1/${resource ?? ""}/${id ?? ""}`;
+
+  if (version === "config") {
+    if (req.method === "PUT") {
+      const config = simulatorConfigSchema.safeParse(req.body);
+      if (!config.success) {
+        return res.status(400).json(config.error.issues);
+      }
+      return res.status(200).json(updateSimulatorConfig(config.data));
+    }
+    return res.status(200).json(getSimulatorConfig());
+  }
+
+  if (!id) {
+    return res.status(404).end();
+  }
+
+  if (req.method === "PUT") {
+    const { callbackUrl } = req.body as { callbackUrl?: unknown };
+    if (typeof callbackUrl !== "string" || !isAllowedCallbackUrl(callbackUrl)) {
+      return res.status(422).json([{ errorCode: "RP03", errorMessage: "Callback URL must be on API_URL" }]);
+    }
+  }
+
+  if (resource === "paymentrequests") {
+    if (req.method === "PUT" && version === "v2") {
+      const payment = req.body as PaymentRequest;
+      createSimulatedPayment(id, payment);
+      res.setHeader("Location", location);
+      if (!payment.payerAlias) {
+        res.setHeader("PaymentRequestToken", id.toLowerCase());
+      }
+      return res.status(201).end();
+    }
+    if (req.method === "GET" && version === "v1") {
+      const payment = getSimulatedPayment(id);
+      return payment ? res.status(200).json(payment) : res.status(404).end();
+    }
+  }
+
+  if (resource === "refunds") {
+    if (req.method === "PUT" && version === "v2") {
+      createSimulatedRefund(id, req.body as RefundRequest);
+      res.setHeader("Location", location);
+      return res.status(201).end();
+    }
+    if (req.method === "GET" && version === "v1") {
+      const refund = getSimulatedRefund(id);
+      return refund ? res.status(200).json(refund) : res.status(404).end();
+    }
+  }
+
+  return res.status(405).end();
+};
+
+export default swishSimulator;
@@ -0,0 +1,19 @@
+import { type NextApiRequest, type NextApiResponse } from "next";
+import QRCode from "qrcode";
+import { verifyTicketToken } from "~/server/utils/tickets";
+
+/**
+ * GET /api/tickets/:token - the ticket as a QR code image
+ */
+const ticket = async (req: NextApiRequest, res: NextApiResponse) => {
+  const token = req.query.token as string;
+  if (!verifyTicketToken(token)) {
+    return res.status(404).end();
+  }
+  const image = await QRCode.toBuffer(token, { type: "png", width: 300, margin: 2 });
+  res.setHeader("Content-Type", "image/png");
+  res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+  return res.status(200).send(image);
+};
+
+export default ticket;
@@ -0,0 +1,76 @@
+import { useRouter } from "next/router";
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { Button } from "~/components/atoms/Button/Button";
+import Card from "~/components/atoms/CardLink/CardLink";
+import { InputField } from "~/components/atoms/InputField/InputField";
+import { api } from "~/utils/api";
+import { passwordResetSchema } from "~/utils/zodSchemas";
+
+export const ResetPasswordPage = () => {
+  const router = useRouter();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const { mutateAsync: resetPassword, isLoading } = api.user.resetPassword.useMutation();
+
+  const handleReset = async () => {
+    const payload = passwordResetSchema.safeParse({
+      token: router.query.token,
+      password,
+      confirmPassword
+    });
+    if (!payload.success) {
+      payload.error.issues.map((x) => toast.error(x.message))
+      return;
+    }
+    try {
+      await resetPassword(payload.data);
+      toast.success("Lösenordet är ändrat, logga in med ditt nya lösenord");
+      await router.push("/loggain");
+    } catch (error) {
+      const err = error as { message: string }
+      toast.error(err.message)
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center">
+      <Card
+        title="Välj nytt lösenord"
+        className="w-full md:w-96"
+      >
+        <form className="space-y-4">
+          <InputField
+            label="Nytt lösenord"
+            placeholder="Lösenord..."
+            type="password"
+            required
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          <InputField
+            label="Bekräfta lösenord"
+            placeholder="Lösenord..."
+            type="password"
+            required
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+          />
+          <Button
+            className="w-full"
+            type="submit"
+            disabled={isLoading}
+            onClick={async (e) => {
+              e.preventDefault();
+              await handleReset();
+            }}
+          >
+            Spara lösenord
+          </Button>
+        </form>
+      </Card>
+    </div>
+  )
+}
+
+export default ResetPasswordPage;
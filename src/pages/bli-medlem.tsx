@@ -2,7 +2,7 @@ import { type MembershipType } from "@prisma/client";
 import { useSession } from "next-auth/react";
 import Image from "next/image";
 import { useRouter } from "next/router";
-import { useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import toast from "react-hot-toast";
 import Accordion from "~/components/atoms/Accordion/Accordion";
 import { memberPerks } from "~/components/atoms/Accordion/accordionContent";
@@ -11,6 +11,7 @@ import Card from "~/components/atoms/CardLink/CardLink";
 import Checkbox from "~/components/atoms/Checkbox/Checkbox";
 import { InputField } from "~/components/atoms/InputField/InputField";
 import { SelectField } from "~/components/atoms/SelectField/SelectField";
+import { SwishModal } from "~/components/common/SwishModal/SwishModal";
 import { api } from "~/utils/api";
 import { createSSRHelper } from "~/utils/createSSRHelper";
 import { featureFlags } from "~/utils/featureFlags";
@@ -24,6 +25,12 @@ interface AdditionalMember {
   membershipType: MembershipType;
 }
 
+const renewalLabels = {
+  REGULAR: "Ordinarie",
+  YOUTH: "Ungdom",
+  FAMILY: "Familj"
+} as const;
+
 export const MemberPage = () => {
   const formRef = useRef<HTMLFormElement>(null);
   const session = useSession();
@@ -34,12 +41,28 @@ export const MemberPage = () => {
   const [phone, setPhone] = useState("");
   const [additionalMembers, setAdditionalMembers] = useState<AdditionalMember>();
   const [acceptedTerms, setAcceptedTerms] = useState(false);
+  const [useMobileCommerce, setUseMobileCommerce] = useState(false);
+  const [swishRequest, setSwishRequest] = useState<{ paymentRequestToken: string | null, qrCode: string | null }>();
   const { mutateAsync: createPayment } = api.memberPayment.requestSwishPayment.useMutation();
   const { mutateAsync: checkPaymentStatus } = api.memberPayment.checkPaymentStatus.useMutation();
   const { data: memberships } = api.public.getAvailableMemberships.useQuery();
   const [membershipId, setMembershipId] = useState(memberships?.regular?.id);
   const [membershipType, setMembershipType] = useState(memberships?.regular?.type);
   const router = useRouter();
+  const { typ } = router.query;
+
+  // Renewal reminders link here with the type of the expiring membership
+  useEffect(() => {
+    const { nextSeason, ...current } = memberships ?? {};
+    const renewal =
+      Object.values(nextSeason ?? {}).find((x) => x?.type === typ) ??
+      Object.values(current).find((x) => x?.type === typ);
+    if (renewal) {
+      setMembershipId(renewal.id);
+      setMembershipType(renewal.type);
+    }
+  }, [typ, memberships]);
+
   if (!memberships || !memberships.regular || !memberships.family || !memberships.youth) {
     return <p className="text-center text-xl">Finns inga medlemskap för tillfället!</p>
   }
@@ -59,15 +82,37 @@ export const MemberPage = () => {
       label: `Familj (${memberships.family.price} kr)`,
       value: memberships.family?.id,
       type: memberships.family?.type
-    }
+    },
+    // Members renewing early pay for next season instead
+    ...Object.values(memberships.nextSeason).flatMap((membership) =>
+      membership
+        ? [{
+            label: `Förnya för ${membership.name}: ${renewalLabels[membership.type]} (${membership.price} kr)`,
+            value: membership.id,
+            type: membership.type
+          }]
+        : []
+    )
   ];
 
-  const selectedMembership = Object.values(memberships).find((x) => x?.id === membershipId);
+  const selectedMembership = [
+    memberships.regular,
+    memberships.youth,
+    memberships.family,
+    ...Object.values(memberships.nextSeason)
+  ].find((x) => x?.id === membershipId);
 
   const becomeMember = async (payload: Zod.infer<typeof memberSignupSchema>) => {
-    const { paymentId } = await createPayment(payload);
-    // Poll payment status
-    return await pollPaymentStatus(paymentId, checkPaymentStatus);
+    const { paymentId, paymentRequestToken, qrCode } = await createPayment(payload);
+    if (paymentRequestToken) {
+      setSwishRequest({ paymentRequestToken, qrCode });
+    }
+    try {
+      // Poll payment status
+      return await pollPaymentStatus(paymentId, checkPaymentStatus);
+    } finally {
+      setSwishRequest(undefined);
+    }
   }
 
   const handleSignup = async () => {
@@ -79,7 +124,8 @@ export const MemberPage = () => {
       membershipId,
       membershipType,
       acceptedTerms,
-      additionalMembers
+      additionalMembers,
+      swishFlow: useMobileCommerce ? "mcommerce" : "ecommerce"
     };
 
     const payload = memberSignupSchema.safeParse(signUpPayload);
@@ -100,6 +146,7 @@ export const MemberPage = () => {
         setEmail("");
         setPhone("");
         setAcceptedTerms(false);
+        setUseMobileCommerce(false);
         setAdditionalMembers(undefined);
         await session.update({ isMember: true });
         await router.push("/");
@@ -111,6 +158,12 @@ export const MemberPage = () => {
 
   return (
     <div className="flex flex-col m-auto items-center justify-center w-full md:w-96">
+      <SwishModal
+        isOpen={!!swishRequest}
+        onClose={() => setSwishRequest(undefined)}
+        paymentRequestToken={swishRequest?.paymentRequestToken}
+        qrCode={swishRequest?.qrCode}
+      />
       {selectedMembership?.imageUrl && (
         <div className="flex flex-col items-center mb-4">
           <div className="w-32 h-48 md:w-32 md:h-66 relative">
@@ -162,6 +215,12 @@ export const MemberPage = () => {
               required
             />
             <span className="text-xs">Detta nummer kommer användas för Swish-betalning</span>
+            <Checkbox
+              id="mcommerce"
+              label="Betala med QR-kod eller Swish på den här enheten"
+              checked={useMobileCommerce}
+              onChange={(e) => setUseMobileCommerce(e.target.checked)}
+            />
             <SelectField
               label="Medlemskap"
               name="membershipType"
@@ -4,14 +4,17 @@ import Head from "next/head";
 import { useRouter } from "next/router";
 import Accordion from "~/components/atoms/Accordion/Accordion";
 import { awayGameRules } from "~/components/atoms/Accordion/accordionContent";
+import { Progressbar } from "~/components/atoms/Progressbar/Progressbar";
 import { AwayGameForm } from "~/components/common/AwayGameForm/AwayGameForm";
 import { api } from "~/utils/api";
 import { createSSRHelper } from "~/utils/createSSRHelper";
+import { useLiveSeatAvailability } from "~/utils/seatAvailability";
 
 
 export const BusPage = () => {
   const { id } = useRouter().query;
   const { data: game, isLoading: isLoadingGame } = api.public.getAwayGame.useQuery({ id: id as string });
+  useLiveSeatAvailability(id as string);
 
   if (!game || isLoadingGame) return null;
 
@@ -50,6 +53,13 @@ export const BusPage = () => {
           ]}
           className="w-full space-y-6" 
           />
+        <div className="w-full">
+          <Progressbar
+            label="Antal anmälda"
+            maxValue={game.buses.reduce((acc, bus) => acc + bus.seats, 0)}
+            currentValue={game.buses.reduce((acc, bus) => acc + bus._count.passengers, 0)}
+          />
+        </div>
         <AwayGameForm />
       </div>
     </>
@@ -1,9 +1,11 @@
 import { type inferRouterOutputs } from "@trpc/server";
 import { type GetServerSidePropsContext } from "next";
 import { useRouter } from "next/router";
+import { useState } from "react";
 import { toast } from "react-hot-toast";
 import { Button } from "~/components/atoms/Button/Button";
 import Card from "~/components/atoms/CardLink/CardLink";
+import Checkbox from "~/components/atoms/Checkbox/Checkbox";
 import { type AppRouter } from "~/server/api/root";
 import { api } from "~/utils/api";
 import { createSSRHelper } from "~/utils/createSSRHelper";
@@ -12,12 +14,15 @@ import { pollRefundStatus } from "~/utils/payment";
 
 type Participant = inferRouterOutputs<AppRouter>['eventPayment']['getManagableBooking']['participants'][number];
 
-export const ParticipantInfo = ({ name, email, payAmount, note }: Participant ) => {
+export const ParticipantInfo = ({ name, email, payAmount, refundAmount, cancellationDisabled, note }: Participant ) => {
   return (
     <div>
       <p>Namn: {name}</p>
       <p>Email: {email}</p>
       <p>Pris: {payAmount} kr</p>
+      {!cancellationDisabled && (
+        <p>Återbetalning vid avbokning: {refundAmount} kr</p>
+      )}
       {note && (
         <p>Övrigt: {note}</p>
       )}
@@ -25,34 +30,63 @@ export const ParticipantInfo = ({ name, email, payAmount, note }: Participant )
   )
 }
 
+const refundStateLabels = {
+  REFUNDED: "Avbokad och återbetald",
+  PENDING: "Återbetalning pågår",
+  FAILED: "Återbetalningen misslyckades, försök igen eller kontakta styrelsen"
+};
+
 export const CancelPage = () => {
   const query = useRouter().query;
+  const [selectedTokens, setSelectedTokens] = useState<string[]>([]);
   const { data, isLoading, refetch: refetchParticipant } = api.eventPayment.getManagableBooking.useQuery({ token: query.token as string});
 
-  const { mutateAsync: cancelBooking, isLoading: isCancelling } = api.eventPayment.cancelBooking.useMutation();
+  const { mutateAsync: cancelBookings, isLoading: isCancelling } = api.eventPayment.cancelBookings.useMutation();
 
   const { mutateAsync: checkRefundStatus } = api.eventPayment.checkRefundStatus.useMutation();
 
   if (!data || isLoading) return null;
 
-  const { participants, departureTime, eventName } = data;
+  const { participants, departureTime, eventName, cancellationTerms } = data;
+
+  const isCancelable = (participant: typeof participants[number]) =>
+    !!participant.cancellationToken &&
+    !participant.cancellationDisabled &&
+    participant.refundState !== "REFUNDED" &&
+    participant.refundState !== "PENDING";
 
-  const handleCancel = async (participant: typeof participants[number]) => {
-    if (!participant.cancellationToken) return null;
-    // Get the refund ID from cancel booking
-    // Use the refund ID to poll the refund status
-    const refundId = await cancelBooking({ token: participant.cancellationToken })
+  const selectedParticipants = participants.filter(
+    (x) => x.cancellationToken && selectedTokens.includes(x.cancellationToken)
+  );
+  const refundAmount = selectedParticipants.reduce((acc, x) => acc + x.refundAmount, 0);
 
+  const toggleParticipant = (token: string, checked: boolean) => {
+    setSelectedTokens(checked ? [...selectedTokens, token] : selectedTokens.filter((x) => x !== token));
+  }
+
+  const handleCancel = async () => {
+    if (!selectedTokens.length) return null;
     try {
+      // Get the refund ID from cancel bookings
+      // Use the refund ID to poll the refund status
+      const refundId = await cancelBookings({
+        token: query.token as string,
+        cancellationTokens: selectedTokens
+      });
       await toast.promise(pollRefundStatus(refundId, checkRefundStatus), {
         success: "Avbokning slutförd",
         error: "Något gick fel, kontakta styrelsen",
         loading: "Avbokar..."
       })
-      await refetchParticipant();
+      setSelectedTokens([]);
     } catch (e) {
       console.error(e);
+      const err = e as { message?: string, data?: { code?: string } };
+      if (err.data?.code === "BAD_REQUEST" && err.message) {
+        toast.error(err.message);
+      }
     }
+    await refetchParticipant();
   }
 
   return (
@@ -60,24 +94,38 @@ export const CancelPage = () => {
         <div className="divide-y divide-gray-100 space-y-4">
           <div>
             <p className="font-bold">Avgångstid: {departureTime}</p>
-            <p>
-              Avbokning kan endast ske senast 48 timmar innan avresa annars debiteras du fullt pris.
-            </p>
+            <p>Avbokningsregler:</p>
+            <ul className="list-disc pl-4">
+              {cancellationTerms.map((term) => (
+                <li key={term}>{term}</li>
+              ))}
+            </ul>
           </div>
           {participants.map((participant) => (
             <div key={participant.cancellationToken} className="space-y-2 pt-2">
               <ParticipantInfo {...participant} /> 
-              {!participant.cancellationDisabled && !participant.hasCancelled && (
-                <Button className="w-full" disabled={isCancelling} onClick={() => handleCancel(participant)}>Avboka</Button>
+              {isCancelable(participant) && participant.cancellationToken && (
+                <Checkbox
+                  label="Avboka"
+                  checked={selectedTokens.includes(participant.cancellationToken)}
+                  onChange={(e) => toggleParticipant(participant.cancellationToken as string, e.target.checked)}
+                />
               )}
-              {participant.hasCancelled && (
-                <p className="rounded-md border p-2 text-center">Du har redan avbokat denna resa</p>
+              {participant.refundState && (
+                <p className="rounded-md border p-2 text-center">{refundStateLabels[participant.refundState]}</p>
               )}
               {participant.cancellationDisabled && !participant.hasCancelled && (
-                <p>Du kan inte avboka inom 48h från avgång</p>
+                <p>Det går inte längre att avboka denna resa</p>
               )}
             </div>
           ))}
+          {participants.some(isCancelable) && (
+            <div className="pt-4">
+              <Button className="w-full" disabled={isCancelling || !selectedTokens.length} onClick={handleCancel}>
+                Avboka {selectedParticipants.length} {selectedParticipants.length === 1 ? "resenär" : "resenärer"} ({refundAmount} kr)
+              </Button>
+            </div>
+          )}
         </div>
     </Card>
   )
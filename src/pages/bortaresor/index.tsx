@@ -6,9 +6,11 @@ import { Button } from "~/components/atoms/Button/Button";
 import { api } from "~/utils/api";
 import { PATHS } from "~/utils/constants";
 import { createSSRHelper } from "~/utils/createSSRHelper";
+import { useLiveSeatAvailability } from "~/utils/seatAvailability";
 
 export default function AwaygamesPage() {
   const { data: awayGames, isLoading: isLoadingAwayGames } = api.public.getAwayGames.useQuery();
+  useLiveSeatAvailability();
 
   const seoDescription = "Bussresor med Västra Sidan. Som medlem åker du billigare. Häng med och stötta Sirius på bortaplan!";
 
@@ -0,0 +1,66 @@
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { Button } from "~/components/atoms/Button/Button";
+import Card from "~/components/atoms/CardLink/CardLink";
+import { InputField } from "~/components/atoms/InputField/InputField";
+import { api } from "~/utils/api";
+import { passwordResetRequestSchema } from "~/utils/zodSchemas";
+
+export const ForgotPasswordPage = () => {
+  const [email, setEmail] = useState("");
+  const [isSent, setIsSent] = useState(false);
+  const { mutateAsync: requestReset, isLoading } = api.user.requestPasswordReset.useMutation();
+
+  const handleRequest = async () => {
+    const payload = passwordResetRequestSchema.safeParse({ email });
+    if (!payload.success) {
+      payload.error.issues.map((x) => toast.error(x.message))
+      return;
+    }
+    try {
+      await requestReset(payload.data);
+      setIsSent(true);
+    } catch (error) {
+      const err = error as { message: string }
+      toast.error(err.message)
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center">
+      <Card
+        title="Glömt lösenord"
+        className="w-full md:w-96"
+      >
+        {isSent ? (
+          <p>Om det finns ett konto med {email} har vi skickat en länk för att välja ett nytt lösenord. Kolla din inkorg.</p>
+        ) : (
+          <form className="space-y-4">
+            <InputField
+              type="email"
+              label="Email"
+              placeholder="Email..."
+              name="email_reset"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+            <Button
+              className="w-full"
+              type="submit"
+              disabled={isLoading}
+              onClick={async (e) => {
+                e.preventDefault();
+                await handleRequest();
+              }}
+            >
+              Skicka länk
+            </Button>
+          </form>
+        )}
+      </Card>
+    </div>
+  )
+}
+
+export default ForgotPasswordPage;
@@ -1,11 +1,12 @@
-import { signIn } from "next-auth/react";
+import { getProviders, signIn } from "next-auth/react";
+import Link from "next/link";
 import { useRouter } from "next/router";
 import { useEffect, useState } from "react";
 import toast from "react-hot-toast";
 import { Button } from "~/components/atoms/Button/Button";
 import Card from "~/components/atoms/CardLink/CardLink";
 import { InputField } from "~/components/atoms/InputField/InputField";
-import { loginSchema } from "~/utils/zodSchemas";
+import { loginSchema, passwordResetRequestSchema } from "~/utils/zodSchemas";
 
 
 
@@ -13,6 +14,7 @@ import { loginSchema } from "~/utils/zodSchemas";
 export const LoginPage = () => {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [externalProvider, setExternalProvider] = useState<{ id: string, name: string }>();
   const router = useRouter();
 
   useEffect(() => {
@@ -20,20 +22,63 @@ export const LoginPage = () => {
     if (loginError === 'CredentialsSignin') {
       toast.error("Felaktig inloggning, försök igen!")
     }
+    if (loginError === 'Verification') {
+      toast.error("Inloggningslänken är ogiltig eller har redan använts")
+    }
+    if (loginError === 'AccessDenied') {
+      toast.error("Inloggningen nekades, din email måste vara verifierad hos inloggningstjänsten")
+    }
   }, [router.query]);
 
+  useEffect(() => {
+    void getProviders().then((providers) => {
+      if (providers?.oidc) {
+        setExternalProvider(providers.oidc);
+      }
+    });
+  }, []);
+
+  // Only paths on this site, e.g. back to an invite
+  const callbackUrl = typeof router.query.callbackUrl === "string" &&
+    router.query.callbackUrl.startsWith("/") &&
+    !router.query.callbackUrl.startsWith("//")
+    ? router.query.callbackUrl
+    : "/";
+
   const handleLogin = async () => {
     const loginPayload = loginSchema.safeParse({ email, password });
     if (!loginPayload.success) {
       loginPayload.error.issues.map((x) => toast.error(x.message))
       return;
     }
-    const res = await signIn('credentials', { username: email, password, redirect: false, callbackUrl: "/" });
+    const res = await signIn('credentials', { username: email, password, redirect: false, callbackUrl });
+    if (res?.error === "AccountLocked") {
+      toast.error("För många misslyckade försök, kontot är låst i 15 minuter. Du kan logga in med en länk istället.")
+      return;
+    }
+    if (res?.error === "TooManyAttempts") {
+      toast.error("För många inloggningsförsök, vänta en stund och försök igen")
+      return;
+    }
     if (res?.status === 401) {
       toast.error("Felaktig inloggning, försök igen")
     }
     if (res?.ok) {
-      await router.push("/");
+      await router.push(callbackUrl);
+    }
+  }
+
+  const handleMagicLink = async () => {
+    const payload = passwordResetRequestSchema.safeParse({ email });
+    if (!payload.success) {
+      payload.error.issues.map((x) => toast.error(x.message))
+      return;
+    }
+    const res = await signIn('email', { email: payload.data.email, redirect: false, callbackUrl });
+    if (res?.ok) {
+      toast.success(`Vi har skickat en inloggningslänk till ${payload.data.email}`);
+    } else {
+      toast.error("Kunde inte skicka inloggningslänken, försök igen");
     }
   }
 
@@ -77,6 +122,29 @@ export const LoginPage = () => {
           >
             Skapa konto
           </Button>
+          <Button
+            className="w-full"
+            onClick={async (e) => {
+              e.preventDefault();
+              await handleMagicLink();
+            }}
+          >
+            Skicka inloggningslänk till min email
+          </Button>
+          {externalProvider && (
+            <Button
+              className="w-full"
+              onClick={async (e) => {
+                e.preventDefault();
+                await signIn(externalProvider.id, { callbackUrl });
+              }}
+            >
+              Logga in med {externalProvider.name}
+            </Button>
+          )}
+          <Link href="/glomt-losenord" className="block text-center text-sm text-gray-300 hover:text-white">
+            Glömt lösenord?
+          </Link>
         </form>
       </Card>
     </div>
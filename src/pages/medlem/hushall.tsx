@@ -0,0 +1,64 @@
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/router";
+import toast from "react-hot-toast";
+import { Button } from "~/components/atoms/Button/Button";
+import { ButtonLink } from "~/components/atoms/ButtonLink/ButtonLink";
+import Card from "~/components/atoms/CardLink/CardLink";
+import { api } from "~/utils/api";
+
+export const HouseholdInvitePage = () => {
+  const router = useRouter();
+  const token = router.query.token as string;
+  const session = useSession();
+  const { data: invite, isLoading, error } = api.user.getHouseholdInvite.useQuery(
+    { token },
+    { enabled: !!token, retry: false }
+  );
+  const { mutateAsync: claimInvite, isLoading: isClaiming } = api.user.claimHouseholdInvite.useMutation();
+
+  const handleClaim = async () => {
+    try {
+      await claimInvite({ token });
+      await session.update({ isMember: true });
+      toast.success("Välkommen som medlem!");
+      await router.push("/mina-medlemskap");
+    } catch (err) {
+      const claimError = err as { message: string };
+      toast.error(claimError.message);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-center">Laddar...</p>
+  }
+
+  if (error || !invite) {
+    return <p className="text-center">{error?.message ?? "Inbjudan finns inte längre"}</p>
+  }
+
+  const callbackUrl = encodeURIComponent(router.asPath);
+
+  return (
+    <div className="flex flex-col items-center justify-center">
+      <Card title="Familjemedlemskap" className="w-full md:w-96">
+        <p>
+          Hej {invite.firstName}! {invite.inviterName ?? "En medlem"} har lagt till dig i sitt
+          familjemedlemskap ({invite.membershipName}).
+        </p>
+        {invite.claimed && !session.data?.user && (
+          <p>Inbjudan har redan accepterats. Logga in för att se ditt medlemskap.</p>
+        )}
+        {session.data?.user ? (
+          <Button disabled={isClaiming} onClick={handleClaim}>Gå med i familjen</Button>
+        ) : (
+          <div className="flex flex-col space-y-2">
+            <ButtonLink href={`/loggain?callbackUrl=${callbackUrl}`}>Logga in</ButtonLink>
+            <ButtonLink href="/skapakonto">Skapa konto med {invite.email}</ButtonLink>
+          </div>
+        )}
+      </Card>
+    </div>
+  )
+};
+
+export default HouseholdInvitePage;
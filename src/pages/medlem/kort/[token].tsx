@@ -0,0 +1,51 @@
+import { format } from "date-fns";
+import { useRouter } from "next/router";
+import Card from "~/components/atoms/CardLink/CardLink";
+import { api } from "~/utils/api";
+
+/**
+ * Opened by partners scanning the QR on a membership card
+ */
+export const MembershipCardPage = () => {
+  const token = useRouter().query.token as string;
+  const { data: card, isLoading, error } = api.public.verifyMembershipCard.useQuery(
+    { token },
+    { enabled: !!token, retry: false }
+  );
+
+  if (isLoading) {
+    return <p className="text-center">Laddar...</p>
+  }
+
+  if (error || !card) {
+    return (
+      <div className="flex flex-col items-center justify-center">
+        <Card className="w-full md:w-96">
+          <p className="rounded bg-red-700 p-4 text-center text-2xl font-bold">Ogiltigt medlemskort</p>
+          <p>{error?.message ?? "Medlemskortet kunde inte verifieras"}</p>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center">
+      <Card className="w-full md:w-96">
+        <p className={`rounded p-4 text-center text-2xl font-bold ${card.valid ? "bg-green-700" : "bg-red-700"}`}>
+          {card.valid
+            ? "Giltigt medlemskap"
+            : card.startDate > new Date()
+              ? "Medlemskapet har inte börjat gälla"
+              : "Medlemskapet har gått ut"}
+        </p>
+        <p className="text-2xl font-bold">{card.name}</p>
+        <p>{card.membershipName}, {card.membershipType}</p>
+        <p className="text-sm">
+          Giltigt {format(card.startDate, "yyyy-MM-dd")} - {format(card.endDate, "yyyy-MM-dd")}
+        </p>
+      </Card>
+    </div>
+  )
+};
+
+export default MembershipCardPage;
@@ -0,0 +1,42 @@
+import { useRouter } from "next/router";
+import { useEffect, useRef } from "react";
+import { api } from "~/utils/api";
+
+
+export const VerifyPage = () => {
+  const { token } = useRouter().query;
+  const { mutate: verifyEmail, isLoading, data, error } = api.user.verifyEmail.useMutation();
+
+  // Tokens are single use, so only send it once
+  const hasSentToken = useRef(false);
+
+  useEffect(() => {
+    if (typeof token === "string" && !hasSentToken.current) {
+      hasSentToken.current = true;
+      verifyEmail({ token });
+    }
+  }, [token, verifyEmail]);
+
+
+  return (
+    <div className="flex flex-col items-center justify-center gap-6">
+      {isLoading && (
+        <p className="text-3xl">
+        Verifiera email
+      </p>
+      )}
+      {!isLoading && data?.status === 200 && (
+        <p className="text-3xl">
+          Din mail är verifierad!
+        </p>
+      )}
+      {error && (
+        <p className="text-xl text-center">
+          {error.message}. Logga in och skicka en ny länk under Mitt konto.
+        </p>
+      )}
+    </div>
+  )
+};
+
+export default VerifyPage;
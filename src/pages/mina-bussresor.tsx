@@ -1,5 +1,6 @@
 import { format } from "date-fns";
 import { useSession } from "next-auth/react";
+import Image from "next/image";
 import Card from "~/components/atoms/CardLink/CardLink";
 import { api } from "~/utils/api";
 import LoginPage from "./loggain";
@@ -8,6 +9,7 @@ import { ButtonLink } from "~/components/atoms/ButtonLink/ButtonLink";
 export const AwayGamesProfilePage = () => {
   const session = useSession();
   const { data } = api.user.getProfile.useQuery(undefined, { enabled: !!session.data?.user });
+  const { data: account } = api.user.getAccount.useQuery(undefined, { enabled: !!session.data?.user });
   if (!session.data?.user) {
     return <LoginPage />
   }
@@ -18,6 +20,12 @@ export const AwayGamesProfilePage = () => {
 
   return (
     <div className="flex flex-col md:flex-row justify-center gap-4 items-center">
+      {account?.verificationRequired && !account.emailVerified && (
+        <Card className="w-full md:w-96">
+          <p>Verifiera din email för att se dina bokningar här.</p>
+          <ButtonLink href="/mitt-konto">Mitt konto</ButtonLink>
+        </Card>
+      )}
       <Card
         title="Kommande bussresor"
         titleClassName="text-center !text-3xl"
@@ -40,6 +48,12 @@ export const AwayGamesProfilePage = () => {
                 {!event.isPayer && event.cancellationDate && (
                   <p className="mt-2 rounded-md border p-2 text-center">Avbokad: {event.cancellationDate}</p>
                 )}
+                {event.ticketUrl && (
+                  <details className="mt-2 rounded-md border p-2">
+                    <summary className="cursor-pointer text-center">Visa biljett</summary>
+                    <Image src={event.ticketUrl} alt={`Biljett till ${event.name}`} width={200} height={200} className="m-auto mt-2 bg-white" unoptimized />
+                  </details>
+                )}
                 {event.cancellationToken && event.isPayer && (
                   <ButtonLink className="mt-2" href={`/bortaresor/avboka?token=${event.cancellationToken}`}>Hantera</ButtonLink>
                 )}
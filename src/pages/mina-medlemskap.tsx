@@ -1,14 +1,109 @@
 import { useSession } from "next-auth/react";
+import { format } from "date-fns";
 import Image from "next/image";
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { Button } from "~/components/atoms/Button/Button";
+import { ButtonLink } from "~/components/atoms/ButtonLink/ButtonLink";
 import Card from "~/components/atoms/CardLink/CardLink";
+import { InputField } from "~/components/atoms/InputField/InputField";
 import { api } from "~/utils/api";
 import { featureFlags } from "~/utils/featureFlags";
+import { householdMemberSchema } from "~/utils/zodSchemas";
 import LoginPage from "./loggain";
 
+const emptyMember = { firstName: "", lastName: "", email: "" };
+
+interface HouseholdCardProps {
+  paymentId: string;
+  membershipName?: string;
+  members: {
+    id: string;
+    name: string;
+    email: string;
+    claimed: boolean;
+  }[];
+}
+
+const HouseholdCard = ({ paymentId, membershipName, members }: HouseholdCardProps) => {
+  const utils = api.useContext();
+  const [newMember, setNewMember] = useState(emptyMember);
+  const onSuccess = () => utils.user.getHouseholds.invalidate();
+  const onError = (err: { message: string }) => toast.error(err.message);
+  const { mutate: addMember, isLoading: isAdding } = api.user.addHouseholdMember.useMutation({
+    onSuccess: async () => {
+      setNewMember(emptyMember);
+      toast.success("Inbjudan skickad");
+      await onSuccess();
+    },
+    onError
+  });
+  const { mutate: resendInvite } = api.user.resendHouseholdInvite.useMutation({
+    onSuccess: () => toast.success("Inbjudan skickad"),
+    onError
+  });
+  const { mutate: removeMember } = api.user.removeHouseholdMember.useMutation({ onSuccess, onError });
+
+  const handleAdd = () => {
+    const result = householdMemberSchema.safeParse({ paymentId, ...newMember });
+    if (!result.success) {
+      toast.error(result.error.errors.map((x) => x.message).join(", "));
+      return;
+    }
+    addMember(result.data);
+  };
+
+  return (
+    <Card title={`Familj${membershipName ? ` - ${membershipName}` : ""}`} className="w-full md:w-96">
+      {members.map((member) => (
+        <div className="flex flex-col space-y-1" key={member.id}>
+          <p>{member.name}</p>
+          <p className="text-sm">{member.email} - {member.claimed ? "Kopplad till konto" : "Inbjuden"}</p>
+          <div className="flex gap-2">
+            {!member.claimed && (
+              <Button onClick={() => resendInvite({ id: member.id })}>Skicka igen</Button>
+            )}
+            <Button
+              onClick={() => {
+                if (confirm(`Ta bort ${member.name} från familjen?`)) {
+                  removeMember({ id: member.id });
+                }
+              }}>
+              Ta bort
+            </Button>
+          </div>
+        </div>
+      ))}
+      {!members.length && (
+        <p className="text-center">Inga familjemedlemmar tillagda</p>
+      )}
+      <div className="h-0.5 border-t-0 bg-neutral-100" />
+      <InputField
+        label="Förnamn"
+        value={newMember.firstName}
+        onChange={(e) => setNewMember({ ...newMember, firstName: e.target.value })}
+      />
+      <InputField
+        label="Efternamn"
+        value={newMember.lastName}
+        onChange={(e) => setNewMember({ ...newMember, lastName: e.target.value })}
+      />
+      <InputField
+        label="Email"
+        type="email"
+        value={newMember.email}
+        onChange={(e) => setNewMember({ ...newMember, email: e.target.value })}
+      />
+      <Button disabled={isAdding} onClick={handleAdd}>Lägg till familjemedlem</Button>
+    </Card>
+  )
+};
+
 
 export const ProfilePage = () => {
   const session = useSession();
   const { data } = api.user.getProfile.useQuery(undefined, { enabled: !!session.data?.user });
+  const { data: households } = api.user.getHouseholds.useQuery(undefined, { enabled: !!session.data?.user });
 
   if (!session.data?.user) {
     return <LoginPage />
@@ -19,20 +114,41 @@ export const ProfilePage = () => {
   }
 
   return (
-    <div className="flex flex-col items-center justify-center">
+    <div className="flex flex-col items-center justify-center gap-6">
         <Card 
           title="Mina medlemskap"
           className="w-full md:w-96"
         >
           <div className="h-0.5 border-t-0 bg-neutral-100" />
           {data.memberShips && data.memberShips.map((membership) => {
+            const isValid = membership.endDate >= new Date();
             return (
               <div className="flex flex-col space-y-2" key={membership.id}>
-                <p>{membership.name}</p>
-                <p>{membership.type}</p>
                 <div className="h-56 relative">
                   <Image src={membership.imageUrl} fill alt={membership.name} style={{ objectFit: 'contain' }} />
                 </div>
+                <p className="text-xl font-bold">{session.data.user.firstName} {session.data.user.lastName}</p>
+                <p>{membership.name}, {membership.type}</p>
+                <p className="text-sm">
+                  Giltigt {format(membership.startDate, "yyyy-MM-dd")} - {format(membership.endDate, "yyyy-MM-dd")}
+                  {!isValid && " (utgånget)"}
+                </p>
+                {isValid && (
+                  <>
+                    <div className="m-auto bg-white p-2 rounded">
+                      <Image
+                        src={`/api/membership-cards/${membership.cardToken}/qr`}
+                        width={200}
+                        height={200}
+                        alt="QR-kod för medlemskortet"
+                        unoptimized
+                      />
+                    </div>
+                    <ButtonLink href={`/api/membership-cards/${membership.cardToken}/pass`} download>
+                      Lägg till i Wallet
+                    </ButtonLink>
+                  </>
+                )}
               </div>
             )
           })}
@@ -40,6 +156,9 @@ export const ProfilePage = () => {
             <p className="text-center">Du har inget medlemskap</p>
           )}
         </Card>
+        {households?.map((household) => (
+          <HouseholdCard key={household.paymentId} {...household} />
+        ))}
     </div>
   )
 }
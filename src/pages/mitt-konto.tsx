@@ -0,0 +1,124 @@
+import { signOut, useSession } from "next-auth/react";
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { Button } from "~/components/atoms/Button/Button";
+import { ButtonLink } from "~/components/atoms/ButtonLink/ButtonLink";
+import Card from "~/components/atoms/CardLink/CardLink";
+import { InputField } from "~/components/atoms/InputField/InputField";
+import { api } from "~/utils/api";
+import { clearOfflineCheckIn } from "~/utils/offlineCheckIn";
+import { changePasswordSchema } from "~/utils/zodSchemas";
+import LoginPage from "./loggain";
+
+export const AccountPage = () => {
+  const session = useSession();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const { mutateAsync: changePassword, isLoading } = api.user.changePassword.useMutation();
+  const { data: account } = api.user.getAccount.useQuery(undefined, { enabled: !!session.data?.user });
+  const { mutate: resendVerification, isLoading: isResending } = api.user.resendVerificationEmail.useMutation({
+    onSuccess: () => toast.success("Vi har skickat en ny länk till din email"),
+    onError: (err) => toast.error(err.message)
+  });
+
+  if (!session.data?.user) {
+    return <LoginPage />
+  }
+
+  const handleChangePassword = async () => {
+    const payload = changePasswordSchema.safeParse({ currentPassword, password, confirmPassword });
+    if (!payload.success) {
+      payload.error.issues.map((x) => toast.error(x.message))
+      return;
+    }
+    try {
+      await changePassword(payload.data);
+      // Every session is signed out when the password changes
+      toast.success("Lösenordet är ändrat, logga in igen");
+      await clearOfflineCheckIn();
+      await signOut({ callbackUrl: "/loggain" });
+    } catch (error) {
+      const err = error as { message: string }
+      toast.error(err.message)
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center gap-6">
+      <Card
+        title="Mitt konto"
+        className="w-full md:w-96"
+      >
+        <p>{session.data.user.name}</p>
+        <p className="text-sm text-gray-400">{session.data.user.email}</p>
+        {account && !account.emailVerified && (
+          <>
+            <p className="text-sm">
+              Din email är inte verifierad.
+              {account.verificationRequired && " Du behöver verifiera den innan du kan boka resor eller köpa medlemskap."}
+            </p>
+            <Button disabled={isResending} onClick={() => resendVerification()}>
+              Skicka verifieringslänk igen
+            </Button>
+          </>
+        )}
+      </Card>
+      {account && !account.hasPassword && (
+        <Card
+          title="Lösenord"
+          className="w-full md:w-96"
+        >
+          <p>Du loggar in utan lösenord. Vill du ha ett kan du välja ett via Glömt lösenord.</p>
+          <ButtonLink href="/glomt-losenord">Välj lösenord</ButtonLink>
+        </Card>
+      )}
+      {account?.hasPassword && (
+        <Card
+          title="Byt lösenord"
+          className="w-full md:w-96"
+        >
+          <form className="space-y-4">
+            <InputField
+              label="Nuvarande lösenord"
+              placeholder="Lösenord..."
+              type="password"
+              required
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+            />
+            <InputField
+              label="Nytt lösenord"
+              placeholder="Lösenord..."
+              type="password"
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            <InputField
+              label="Bekräfta nytt lösenord"
+              placeholder="Lösenord..."
+              type="password"
+              required
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+            />
+            <Button
+              className="w-full"
+              type="submit"
+              disabled={isLoading}
+              onClick={async (e) => {
+                e.preventDefault();
+                await handleChangePassword();
+              }}
+            >
+              Byt lösenord
+            </Button>
+          </form>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+export default AccountPage;
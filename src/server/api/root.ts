@@ -6,6 +6,7 @@ import { publicRouter } from "./routers/public";
 import { userRouter } from "./routers/user";
 import { memberPaymentRouter } from "./routers/memberPayment";
 import { wordpressRouter } from "./routers/wordpress";
+import { waitlistRouter } from "./routers/waitlist";
 
 /**
  * This is the primary router for your server.
@@ -19,7 +20,8 @@ export const appRouter = createTRPCRouter({
   cron: cronRouter,
   admin: adminRouter,
   user: userRouter,
-  wordpress: wordpressRouter
+  wordpress: wordpressRouter,
+  waitlist: waitlistRouter
 });
 
 // export type definition of API
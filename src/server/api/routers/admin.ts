@@ -1,12 +1,29 @@
-import { type Prisma, SwishPaymentStatus, SwishRefundStatus } from "@prisma/client";
+import { type Prisma, type PrismaClient, Role, SwishPaymentStatus, SwishRefundStatus, WaitlistStatus } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
 import { format } from "date-fns";
 import { z } from "zod";
-import { createTRPCRouter, adminProcedure } from "~/server/api/trpc";
-import { isEventCancelable } from "~/server/utils/event";
-import { friendlyMembershipNames } from "~/server/utils/membership";
+import { createTRPCRouter, permissionProcedure } from "~/server/api/trpc";
+import { getBusScope, hostedBusWhere, isInBusScope } from "~/server/utils/busHosts";
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  isEventCancelable
+} from "~/server/utils/event";
+import { activeMembershipWhere, friendlyMembershipNames } from "~/server/utils/membership";
+import {
+  getParticipantRefundState,
+  refundParticipantsAsAdmin
+} from "~/server/utils/refunds";
+import { syncCheckIns } from "~/server/utils/checkIn";
+import { getRateLimitStore } from "~/server/utils/rateLimit";
+import { checkInTicket } from "~/server/utils/tickets";
+import { offerNextWaitlistSeats } from "~/server/utils/waitlist";
+import { PERMISSIONS, hasPermission } from "~/utils/permissions";
+import { cancellationPolicySchema, checkInSyncSchema } from "~/utils/zodSchemas";
 
-const busesWithPaidPassengers = {
+// Every payment and refund has a single row holding its current status
+const busesWithPaidPassengers = (where?: Prisma.BusWhereInput) => ({
   buses: {
+    where,
     include: {
       passengers: {
         where: {
@@ -24,7 +41,7 @@ const busesWithPaidPassengers = {
       }
     }
   }
-};
+});
 
 export type User = Prisma.UserGetPayload<{
   select: {
@@ -69,7 +86,15 @@ export type AdminUserProfile = Prisma.UserGetPayload<{
     email: true,
     eventParticipations: {
       include: {
-        event: true,
+        event: {
+          include: {
+            cancellationPolicy: {
+              include: {
+                tiers: true
+              }
+            }
+          }
+        },
         swishPayments: true,
         swishRefunds: true,
       }
@@ -106,46 +131,350 @@ const adminEventFormatter = (awayGame: AdminUserProfile['eventParticipations'][n
   payedAt: awayGame?.swishPayments[0]?.createdAt ? format(awayGame?.swishPayments[0]?.createdAt, "yyyy-MM-dd HH:mm") : null,
   payAmount: awayGame?.swishPayments[0]?.amount,
   hasCancelled: awayGame?.swishRefunds.length > 0,
-  isCancelable: isEventCancelable(awayGame.event.date),
+  isCancelable: isEventCancelable(awayGame.event.date, awayGame.event.cancellationPolicy),
   cancellationToken: awayGame.cancellationToken,
   cancellationDate: awayGame.cancellationDate ? format(awayGame.cancellationDate, "yyyy-MM-dd HH:mm") : null,
 });
 
-export const adminRouter = createTRPCRouter({
-  getEvents: adminProcedure.query(async ({ ctx }) => {
-    const res = await ctx.prisma.vastraEvent.findMany({
-      include: busesWithPaidPassengers
+/**
+ * The buses on the event the user may see, null meaning every bus.
+ * Throws for bus hosts not assigned to the event.
+ */
+const getEventBusScope = async (
+  ctx: { session: { user: { id: string; role: Role } }; prisma: PrismaClient },
+  eventId: string
+) => {
+  const scope = await getBusScope(ctx.session.user, eventId, ctx.prisma);
+  if (scope && !scope.length) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Du är inte bussvärd på den här resan"
     });
+  }
+  return scope;
+};
+
+const busScopeWhere = (scope: string[] | null): Prisma.BusWhereInput | undefined =>
+  scope ? { id: { in: scope } } : undefined;
+
+export const adminRouter = createTRPCRouter({
+  getEvents: permissionProcedure(PERMISSIONS.VIEW_EVENTS, PERMISSIONS.CHECK_IN).query(async ({ ctx }) => {
+    const { id: userId, role } = ctx.session.user;
+    // Bus hosts only get the events and buses they are assigned
+    const res = hasPermission(role, PERMISSIONS.VIEW_EVENTS)
+      ? await ctx.prisma.vastraEvent.findMany({
+          include: busesWithPaidPassengers()
+        })
+      : await ctx.prisma.vastraEvent.findMany({
+          where: {
+            busHosts: {
+              some: {
+                userId
+              }
+            }
+          },
+          include: busesWithPaidPassengers(hostedBusWhere(userId))
+        });
     return {
       upcomingEvents: res.filter((event) => event.date > new Date()),
       pastEvents: res.filter((event) => event.date <= new Date())
     };
   }),
-  getEvent: adminProcedure
+  getEvent: permissionProcedure(PERMISSIONS.VIEW_EVENTS, PERMISSIONS.CHECK_IN)
     .input(z.object({ id: z.string() }))
     .query(async ({ input, ctx }) => {
+      const scope = await getEventBusScope(ctx, input.id);
       const res = await ctx.prisma.vastraEvent.findFirst({
         where: {
           id: input.id
         },
-        include: busesWithPaidPassengers
+        include: busesWithPaidPassengers(busScopeWhere(scope))
       });
       return res;
     }),
-  checkInParticipant: adminProcedure
+  getManifest: permissionProcedure(PERMISSIONS.VIEW_EVENTS, PERMISSIONS.CHECK_IN)
+    .input(z.object({ eventId: z.string(), busId: z.string().optional() }))
+    .query(async ({ input, ctx }) => {
+      const scope = await getEventBusScope(ctx, input.eventId);
+      const event = await ctx.prisma.vastraEvent.findUnique({
+        where: {
+          id: input.eventId
+        },
+        include: busesWithPaidPassengers(busScopeWhere(scope))
+      });
+      if (!event) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Event not found"
+        });
+      }
+      if (!input.busId) {
+        return event;
+      }
+      const buses = event.buses.filter((bus) => bus.id === input.busId);
+      if (!buses.length) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Bus not found"
+        });
+      }
+      return { ...event, buses };
+    }),
+  getCancellationPolicy: permissionProcedure(PERMISSIONS.VIEW_EVENTS)
+    .input(z.object({ eventId: z.string() }))
+    .query(async ({ input, ctx }) => {
+      const policy = await ctx.prisma.cancellationPolicy.findUnique({
+        where: {
+          eventId: input.eventId
+        },
+        include: {
+          tiers: {
+            orderBy: {
+              hoursBeforeDeparture: "desc"
+            }
+          }
+        }
+      });
+      return {
+        fee: policy?.fee ?? DEFAULT_CANCELLATION_POLICY.fee,
+        tiers: policy?.tiers ?? DEFAULT_CANCELLATION_POLICY.tiers,
+        isDefault: !policy
+      };
+    }),
+  updateCancellationPolicy: permissionProcedure(PERMISSIONS.MANAGE_EVENTS)
+    .input(cancellationPolicySchema)
+    .mutation(async ({ input, ctx }) => {
+      const { eventId, fee, tiers } = input;
+      return ctx.prisma.$transaction(async (tx) => {
+        const policy = await tx.cancellationPolicy.upsert({
+          where: {
+            eventId
+          },
+          create: {
+            eventId,
+            fee,
+            editedInAdmin: true
+          },
+          update: {
+            fee,
+            editedInAdmin: true
+          }
+        });
+        await tx.cancellationTier.deleteMany({
+          where: {
+            policyId: policy.id
+          }
+        });
+        await tx.cancellationTier.createMany({
+          data: tiers.map((tier) => ({ ...tier, policyId: policy.id }))
+        });
+        return policy;
+      });
+    }),
+  refundParticipant: permissionProcedure(PERMISSIONS.REFUND_PAYMENTS)
+    .input(z.object({ participantId: z.string(), reason: z.string().min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      return refundParticipantsAsAdmin(
+        { id: input.participantId },
+        input.reason,
+        ctx.prisma
+      );
+    }),
+  refundBus: permissionProcedure(PERMISSIONS.REFUND_PAYMENTS)
+    .input(z.object({ busId: z.string(), reason: z.string().min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      return refundParticipantsAsAdmin(
+        { busId: input.busId },
+        input.reason,
+        ctx.prisma
+      );
+    }),
+  refundEvent: permissionProcedure(PERMISSIONS.REFUND_PAYMENTS)
+    .input(z.object({ eventId: z.string(), reason: z.string().min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      return refundParticipantsAsAdmin(
+        { eventId: input.eventId },
+        input.reason,
+        ctx.prisma
+      );
+    }),
+  getRefundProgress: permissionProcedure(PERMISSIONS.REFUND_PAYMENTS)
+    .input(z.object({ eventId: z.string() }))
+    .query(async ({ input, ctx }) => {
+      const participants = await ctx.prisma.participant.findMany({
+        where: {
+          eventId: input.eventId,
+          swishRefunds: {
+            some: {}
+          }
+        },
+        include: {
+          bus: true,
+          swishRefunds: true
+        },
+        orderBy: {
+          name: "asc"
+        }
+      });
+      const refunds = participants.map((participant) => ({
+        id: participant.id,
+        name: participant.name,
+        busName: participant.bus?.name,
+        state: getParticipantRefundState(participant.swishRefunds),
+        reason: participant.swishRefunds.find((x) => x.reason)?.reason ?? null
+      }));
+      return {
+        refunds,
+        refunded: refunds.filter((x) => x.state === "REFUNDED").length,
+        pending: refunds.filter((x) => x.state === "PENDING").length,
+        failed: refunds.filter((x) => x.state === "FAILED").length
+      };
+    }),
+  checkInParticipant: permissionProcedure(PERMISSIONS.CHECK_IN)
     .input(z.object({ id: z.string(), checkedIn: z.boolean() }))
     .mutation(async ({ input, ctx }) => {
+      const participant = await ctx.prisma.participant.findUnique({
+        where: {
+          id: input.id
+        }
+      });
+      if (!participant) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Participant not found"
+        });
+      }
+      const scope = await getEventBusScope(ctx, participant.eventId);
+      if (!isInBusScope(participant.busId, scope)) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: `${participant.name} åker med en buss du inte är värd för`
+        });
+      }
       const res = await ctx.prisma.participant.update({
         where: {
           id: input.id
         },
         data: {
-          checkedIn: input.checkedIn
+          checkedIn: input.checkedIn,
+          checkedInUpdatedAt: new Date()
         }
       });
       return res.checkedIn;
     }),
-  getActiveMembers: adminProcedure
+  syncCheckIns: permissionProcedure(PERMISSIONS.CHECK_IN)
+    .input(checkInSyncSchema)
+    .mutation(async ({ input, ctx }) => {
+      const scope = await getEventBusScope(ctx, input.eventId);
+      return syncCheckIns(input, scope, ctx.prisma);
+    }),
+  checkInTicket: permissionProcedure(PERMISSIONS.CHECK_IN)
+    .input(z.object({ token: z.string(), eventId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const scope = await getEventBusScope(ctx, input.eventId);
+      return checkInTicket(input.token, input.eventId, scope, ctx.prisma);
+    }),
+  getWaitlist: permissionProcedure(PERMISSIONS.VIEW_EVENTS)
+    .input(z.object({ eventId: z.string() }))
+    .query(async ({ input, ctx }) => {
+      return ctx.prisma.waitlistEntry.findMany({
+        where: {
+          eventId: input.eventId,
+          status: {
+            in: [WaitlistStatus.WAITING, WaitlistStatus.OFFERED]
+          }
+        },
+        include: {
+          bus: true
+        },
+        orderBy: {
+          position: "asc"
+        }
+      });
+    }),
+  moveWaitlistEntry: permissionProcedure(PERMISSIONS.MANAGE_EVENTS)
+    .input(z.object({ id: z.string(), direction: z.enum(["up", "down"]) }))
+    .mutation(async ({ input, ctx }) => {
+      const entry = await ctx.prisma.waitlistEntry.findUnique({
+        where: {
+          id: input.id
+        }
+      });
+
+      if (!entry || entry.status !== WaitlistStatus.WAITING) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Waitlist entry not found"
+        });
+      }
+
+      const neighbour = await ctx.prisma.waitlistEntry.findFirst({
+        where: {
+          eventId: entry.eventId,
+          status: WaitlistStatus.WAITING,
+          position: input.direction === "up"
+            ? { lt: entry.position }
+            : { gt: entry.position }
+        },
+        orderBy: {
+          position: input.direction === "up" ? "desc" : "asc"
+        }
+      });
+
+      if (!neighbour) {
+        return "ok";
+      }
+
+      await ctx.prisma.$transaction([
+        ctx.prisma.waitlistEntry.update({
+          where: {
+            id: entry.id
+          },
+          data: {
+            position: neighbour.position
+          }
+        }),
+        ctx.prisma.waitlistEntry.update({
+          where: {
+            id: neighbour.id
+          },
+          data: {
+            position: entry.position
+          }
+        })
+      ]);
+      return "ok";
+    }),
+  removeWaitlistEntry: permissionProcedure(PERMISSIONS.MANAGE_EVENTS)
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const entry = await ctx.prisma.waitlistEntry.update({
+        where: {
+          id: input.id
+        },
+        data: {
+          status: WaitlistStatus.REMOVED
+        }
+      });
+      // Removing an open offer frees the seat for the next in line
+      await offerNextWaitlistSeats(entry.eventId, ctx.prisma);
+      return "ok";
+    }),
+  getBlockedIdentities: permissionProcedure(PERMISSIONS.MANAGE_BLOCKED).query(async ({ ctx }) => {
+    const blocked = await getRateLimitStore(ctx.prisma).listBlocked();
+    return blocked.map((entry) => ({
+      key: entry.key,
+      count: entry.count,
+      blockedUntil: entry.blockedUntil
+    }));
+  }),
+  unblockIdentity: permissionProcedure(PERMISSIONS.MANAGE_BLOCKED)
+    .input(z.object({ key: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await getRateLimitStore(ctx.prisma).reset(input.key);
+      return { status: 200 };
+    }),
+  getActiveMembers: permissionProcedure(PERMISSIONS.VIEW_MEMBERS)
     .query(async ({ ctx }) => {
       const res = await ctx.prisma.user.findMany({
         select: {
@@ -167,22 +496,13 @@ export const adminRouter = createTRPCRouter({
         },
         where: {
           memberShips: {
-            some: {
-              endDate: {
-                gte: new Date()
-              },
-              swishPayments: {
-                some: {
-                  status: "PAID"
-                }
-              }
-            }
+            some: activeMembershipWhere()
           }
         }
       });
       return [...res, ...res, ...res, ...res].map(adminUserFormatter);
     }),
-    getMemberById: adminProcedure
+    getMemberById: permissionProcedure(PERMISSIONS.VIEW_MEMBERS)
     .input(z.object({ id: z.string() }))
     .query(async ({ input, ctx }) => {
       const res = await ctx.prisma.user.findFirst({
@@ -194,7 +514,15 @@ export const adminRouter = createTRPCRouter({
           email: true,
           eventParticipations: {
             include: {
-              event: true,
+              event: {
+                include: {
+                  cancellationPolicy: {
+                    include: {
+                      tiers: true
+                    }
+                  }
+                }
+              },
               swishPayments: true,
               swishRefunds: true,
             }
@@ -225,4 +553,128 @@ export const adminRouter = createTRPCRouter({
         pastEvents: res.eventParticipations.filter((x) => x.event.date < new Date()).map(adminEventFormatter),
       };
     }),
+  getStaff: permissionProcedure(PERMISSIONS.MANAGE_ROLES).query(async ({ ctx }) => {
+    return ctx.prisma.user.findMany({
+      where: {
+        role: {
+          not: Role.USER
+        }
+      },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        role: true,
+        busHostAssignments: {
+          include: {
+            event: {
+              select: {
+                name: true,
+                date: true
+              }
+            },
+            bus: {
+              select: {
+                name: true
+              }
+            }
+          },
+          orderBy: {
+            createdAt: "desc"
+          }
+        }
+      },
+      orderBy: {
+        firstName: "asc"
+      }
+    });
+  }),
+  setUserRole: permissionProcedure(PERMISSIONS.MANAGE_ROLES)
+    .input(z.object({ email: z.string().email(), role: z.nativeEnum(Role) }))
+    .mutation(async ({ ctx, input }) => {
+      const user = await ctx.prisma.user.findUnique({
+        where: {
+          email: input.email.trim()
+        }
+      });
+      if (!user) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Det finns ingen användare med den emailen"
+        });
+      }
+      // Keeps at least one superadmin around
+      if (user.id === ctx.session.user.id) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Du kan inte ändra din egen roll"
+        });
+      }
+      await ctx.prisma.user.update({
+        where: {
+          id: user.id
+        },
+        data: {
+          role: input.role
+        }
+      });
+      // Assignments are only used by bus hosts
+      if (input.role !== Role.BUS_HOST) {
+        await ctx.prisma.busHostAssignment.deleteMany({
+          where: {
+            userId: user.id
+          }
+        });
+      }
+      return { status: 200 };
+    }),
+  assignBusHost: permissionProcedure(PERMISSIONS.MANAGE_ROLES)
+    .input(z.object({ userId: z.string(), eventId: z.string(), busId: z.string().nullable() }))
+    .mutation(async ({ ctx, input }) => {
+      const user = await ctx.prisma.user.findUnique({
+        where: {
+          id: input.userId
+        }
+      });
+      if (user?.role !== Role.BUS_HOST) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Användaren är inte bussvärd"
+        });
+      }
+      if (input.busId) {
+        const bus = await ctx.prisma.bus.findFirst({
+          where: {
+            id: input.busId,
+            eventId: input.eventId
+          }
+        });
+        if (!bus) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Bus not found"
+          });
+        }
+      }
+      const existing = await ctx.prisma.busHostAssignment.findFirst({
+        where: input
+      });
+      if (existing) {
+        return existing;
+      }
+      return ctx.prisma.busHostAssignment.create({
+        data: input
+      });
+    }),
+  removeBusHostAssignment: permissionProcedure(PERMISSIONS.MANAGE_ROLES)
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.prisma.busHostAssignment.delete({
+        where: {
+          id: input.id
+        }
+      });
+      return { status: 200 };
+    }),
 });
@@ -1,4 +1,5 @@
 import { createTRPCRouter, cronProcedure } from "~/server/api/trpc";
+import { syncCardskipperMembers } from "~/server/utils/cardSkipper";
 import {
   PATHS,
   RESOURCES,
@@ -6,10 +7,14 @@ import {
   awayGameToEvent,
   makeRequest,
   upsertBus,
+  upsertCancellationPolicy,
   upsertEvent,
   upsertMembership,
   wpMembershipToMembership
 } from "~/server/utils/cron";
+import { sendMembershipReminders } from "~/server/utils/membershipReminders";
+import { reconcileSwishPayments } from "~/server/utils/reconciliation";
+import { expireWaitlistOffers } from "~/server/utils/waitlist";
 import { type AwayGame, type Membership } from "~/types/wordpressTypes";
 
 export const cronRouter = createTRPCRouter({
@@ -43,9 +48,12 @@ export const cronRouter = createTRPCRouter({
 
     // Upsert events in database
     await Promise.all(
-      awayGames.map(async ({ event: awayGame, buses }) => {
+      awayGames.map(async ({ event: awayGame, buses, cancellationPolicy }) => {
         await upsertEvent(awayGame, ctx);
         await Promise.all(buses.map((bus) => upsertBus(bus, ctx)));
+        if (cancellationPolicy) {
+          await upsertCancellationPolicy(awayGame.id, cancellationPolicy, ctx);
+        }
       })
     );
 
@@ -64,5 +72,43 @@ export const cronRouter = createTRPCRouter({
     );
     console.info(`Synced ${memberships.length} memberships`);
     return "ok";
+  }),
+  syncCardskipperMembers: cronProcedure.mutation(async ({ ctx }) => {
+    console.info("Syncing Cardskipper members");
+    const report = await syncCardskipperMembers(ctx.prisma);
+    if (!report.enabled) {
+      console.info("Cardskipper sync is turned off, set CARDSKIPPER_SYNC to run it");
+      return report;
+    }
+    console.info(
+      `Checked ${report.checked} members, created ${report.created}, linked ${report.linked}, ` +
+        `pushed ${report.pushed} to Cardskipper, removed ${report.removed}, ${report.failed.length} failed`
+    );
+    return report;
+  }),
+  sendMembershipReminders: cronProcedure.mutation(async ({ ctx }) => {
+    console.info("Sending membership reminders");
+    const report = await sendMembershipReminders(ctx.prisma);
+    console.info(
+      `Sent ${report.sent} reminders, ${report.failed.length} failed, ` +
+        `${report.noNextSeason} memberships have no next season yet`
+    );
+    return report;
+  }),
+  expireWaitlistOffers: cronProcedure.mutation(async ({ ctx }) => {
+    console.info("Expiring waitlist offers");
+    const { expired, offered } = await expireWaitlistOffers(ctx.prisma);
+    console.info(`Expired ${expired} offers, made ${offered} new offers`);
+    return "ok";
+  }),
+  reconcileSwishPayments: cronProcedure.mutation(async ({ ctx }) => {
+    console.info("Reconciling Swish payments");
+    const report = await reconcileSwishPayments(ctx.prisma);
+    console.info(
+      `Checked ${report.payments.checked} payments and ${report.refunds.checked} refunds, ` +
+        `updated ${report.payments.updated.length} payments and ${report.refunds.updated.length} refunds, ` +
+        `released ${report.seatHolds.released} expired seat holds`
+    );
+    return report;
   })
 });
@@ -0,0 +1,184 @@
+import { SwishPaymentStatus } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { addDays } from "date-fns";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createTestCaller,
+  hasTestDatabase,
+  resetDatabase,
+  testPrisma
+} from "~/test/caller";
+import {
+  createPaymentCallback,
+  createRefundCallback,
+  getCallbackSecret,
+  getPaymentRequest,
+  getRefundRequest,
+  resetStubs,
+  sendEmail,
+  sentEmailsTo
+} from "~/test/stubs";
+
+vi.mock("resend", () => import("~/test/stubs").then((stubs) => stubs.resendModule));
+vi.mock("~/utils/swishHelpers", async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  ...(await import("~/test/stubs")).swishHelpersStub
+}));
+
+const EMAIL = "anna@example.com";
+
+const createEvent = async (seats = 2) => {
+  const event = await testPrisma.vastraEvent.create({
+    data: {
+      name: "Bortaresa Göteborg",
+      description: "",
+      // Cancelled this early the default policy refunds everything
+      date: addDays(new Date(), 30),
+      defaultPrice: 300,
+      memberPrice: 250,
+      youthPrice: 200,
+      youthMemberPrice: 150
+    }
+  });
+  const bus = await testPrisma.bus.create({
+    data: {
+      name: "Buss 1",
+      seats,
+      eventId: event.id
+    }
+  });
+  return { event, bus };
+};
+
+const createTraveller = (busId: string, email = EMAIL) => ({
+  name: "Anna Andersson",
+  email,
+  phone: "0701234567",
+  consent: true as const,
+  busId,
+  member: false,
+  youth: false
+});
+
+const book = async (eventId: string, busId: string, email = EMAIL) => {
+  const { paymentId } = await createTestCaller().eventPayment.requestSwishPayment({
+    eventId,
+    participants: [createTraveller(busId, email)]
+  });
+  return paymentId;
+};
+
+const sendPaymentCallback = (
+  paymentId: string,
+  status: SwishPaymentStatus = SwishPaymentStatus.PAID
+) => {
+  const callback = createPaymentCallback(paymentId, status);
+  return createTestCaller({
+    swishSecret: getCallbackSecret(callback.callbackUrl)
+  }).eventPayment.swishPaymentCallback(callback);
+};
+
+const getTraveller = (email = EMAIL) =>
+  testPrisma.participant.findFirstOrThrow({
+    where: {
+      email
+    }
+  });
+
+describe.skipIf(!hasTestDatabase)("eventPaymentRouter", () => {
+  beforeEach(async () => {
+    await resetDatabase();
+    resetStubs();
+  });
+
+  afterAll(() => testPrisma.$disconnect());
+
+  it("books, confirms, cancels and refunds a traveller", async () => {
+    const { event, bus } = await createEvent();
+
+    const paymentId = await book(event.id, bus.id);
+    expect(getPaymentRequest(paymentId)).toMatchObject({
+      amount: 300,
+      payerAlias: "0701234567"
+    });
+    expect((await getTraveller()).reservedUntil).toBeInstanceOf(Date);
+
+    await sendPaymentCallback(paymentId);
+    const traveller = await getTraveller();
+    expect(traveller.reservedUntil).toBeNull();
+    expect(sentEmailsTo(EMAIL)).toMatchObject([
+      { subject: "Anmälan till Bortaresa Göteborg" }
+    ]);
+
+    const refundId = await createTestCaller().eventPayment.cancelBooking({
+      token: traveller.cancellationToken ?? ""
+    });
+    expect(getRefundRequest(refundId)).toMatchObject({ amount: 300 });
+    // Cancelled once the money is back
+    expect((await getTraveller()).cancellationDate).toBeNull();
+
+    const refunded = createRefundCallback(refundId);
+    await createTestCaller({
+      swishSecret: getCallbackSecret(refunded.callbackUrl)
+    }).eventPayment.swishRefundCallback(refunded);
+    expect((await getTraveller()).cancellationDate).toBeInstanceOf(Date);
+  });
+
+  it("sends one confirmation for duplicate callbacks", async () => {
+    const { event, bus } = await createEvent();
+    const paymentId = await book(event.id, bus.id);
+
+    await sendPaymentCallback(paymentId);
+    await sendPaymentCallback(paymentId);
+
+    expect(sentEmailsTo(EMAIL)).toHaveLength(1);
+  });
+
+  it("sends the confirmation again when sending it failed", async () => {
+    const { event, bus } = await createEvent();
+    const paymentId = await book(event.id, bus.id);
+
+    sendEmail.mockRejectedValueOnce(new Error("Resend is down"));
+    await sendPaymentCallback(paymentId);
+    const payment = await testPrisma.swishPayment.findUniqueOrThrow({
+      where: {
+        paymentId
+      }
+    });
+    expect(payment.status).toBe(SwishPaymentStatus.PAID);
+    expect(payment.confirmationSentAt).toBeNull();
+
+    // Swish retries the callback
+    await sendPaymentCallback(paymentId);
+    expect(sentEmailsTo(EMAIL)).toHaveLength(2);
+  });
+
+  it("gives the seat of a declined payment to the next booking", async () => {
+    const { event, bus } = await createEvent(1);
+    const declinedId = await book(event.id, bus.id);
+
+    await expect(book(event.id, bus.id, "bertil@example.com")).rejects.toThrow(
+      "Det finns bara 0 lediga platser kvar på Buss 1"
+    );
+
+    await sendPaymentCallback(declinedId, SwishPaymentStatus.DECLINED);
+    expect(sentEmailsTo(EMAIL)).toHaveLength(0);
+
+    const paymentId = await book(event.id, bus.id, "bertil@example.com");
+    await sendPaymentCallback(paymentId);
+    expect(sentEmailsTo("bertil@example.com")).toHaveLength(1);
+  });
+
+  it("rejects callbacks without the secret of the payment", async () => {
+    const { event, bus } = await createEvent();
+    const paymentId = await book(event.id, bus.id);
+
+    const callback = createPaymentCallback(paymentId);
+    await expect(
+      createTestCaller({ swishSecret: "wrong" }).eventPayment.swishPaymentCallback(
+        callback
+      )
+    ).rejects.toThrow(TRPCError);
+    expect((await getTraveller()).reservedUntil).toBeInstanceOf(Date);
+  });
+});
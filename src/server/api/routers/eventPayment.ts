@@ -1,32 +1,67 @@
 import {
+  type Prisma,
+  type PrismaClient,
+  type SwishPayment,
   SwishPaymentStatus,
   SwishRefundStatus,
-  type Prisma,
+  WaitlistStatus,
   type VastraEvent
 } from "@prisma/client";
 import { TRPCError } from "@trpc/server";
-import { format, isWithinInterval, subDays } from "date-fns";
-import { Resend } from "resend";
+import { format } from "date-fns";
 import { z } from "zod";
-import { EventSignUp } from "~/components/emails/EventSignUp";
-import { env } from "~/env.mjs";
-import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
-import { isEventCancelable } from "~/server/utils/event";
+import {
+  createTRPCRouter,
+  publicProcedure,
+  rateLimit,
+  swishProcedure
+} from "~/server/api/trpc";
+import {
+  describeCancellationPolicy,
+  getRefundAmount,
+  isEventCancelable
+} from "~/server/utils/event";
+import { assertEmailVerified } from "~/server/utils/emailVerification";
 import { isSamePhoneNumber } from "~/server/utils/helpers";
-import { checkPaymentStatus, checkRefundStatus } from "~/server/utils/payment";
+import {
+  getDuplicateMemberClaims,
+  hasActiveMembership,
+  membershipTypesForPrice
+} from "~/server/utils/membership";
+import {
+  checkPaymentStatus,
+  checkRefundStatus,
+  isMatchingPaymentCallback,
+  isMatchingRefundCallback
+} from "~/server/utils/payment";
+import {
+  getParticipantRefundState,
+  requestParticipantRefund
+} from "~/server/utils/refunds";
+import {
+  getBusesWithSeatCount,
+  getSeatHoldExpiry,
+  holdSeatsInTransaction,
+  releaseSeatHolds
+} from "~/server/utils/seats";
+import {
+  processEventPaymentCallback,
+  processEventRefundCallback
+} from "~/server/utils/swishCallbacks";
 import { createPaymentIntentPayload } from "~/utils/payment";
 import {
+  createCallbackSecret,
   createPaymentRequest,
-  createRefundRequest
+  getPaymentQrCode,
+  isValidCallbackSecret
 } from "~/utils/swishHelpers";
 import {
   participantSchema,
   swishCallbackPaymentSchema,
-  swishCallbackRefundSchema
+  swishCallbackRefundSchema,
+  swishFlowSchema
 } from "~/utils/zodSchemas";
 
-const resend = new Resend(env.RESEND_API_KEY);
-
 type ParticipantInput = z.infer<typeof participantSchema>;
 
 export type ParticipantWithBusAndEvent = Prisma.ParticipantGetPayload<{
@@ -45,7 +80,15 @@ export type ParticipantWithParticipants = Prisma.ParticipantGetPayload<{
         id: true,
         participants: {
           include: {
-            event: true,
+            event: {
+              include: {
+                cancellationPolicy: {
+                  include: {
+                    tiers: true
+                  }
+                }
+              }
+            },
             swishRefunds: true
           }
         },
@@ -79,23 +122,9 @@ const calculateCost = (
   return totalCost;
 };
 
-const sendConfirmationEmail = async (
-  participant: ParticipantWithBusAndEvent
-) => {
-  const cancellationUrl = `${env.CANCELLATION_URL}?token=${
-    participant?.cancellationToken || ""
-  }`;
-  return await resend.sendEmail({
-    from: env.BOOKING_EMAIL,
-    to: env.USE_DEV_MODE === "true" ? "filip.nystrand@gmail.com" : participant.email,
-    subject: `Anmälan till ${participant?.event?.name}`,
-    react: EventSignUp({ participant, cancellationUrl })
-  });
-};
-
-
 const participantFormatter = (participant: ParticipantWithParticipants['swishPayments'][number]['participants'][number]) => {
-  const isCancelable = isEventCancelable(participant.event.date);
+  const { date, cancellationPolicy } = participant.event;
+  const isCancelable = isEventCancelable(date, cancellationPolicy);
   const hasCancelled = participant.swishRefunds.some(
     (x) => x.status === SwishRefundStatus.PAID
   );
@@ -106,20 +135,76 @@ const participantFormatter = (participant: ParticipantWithParticipants['swishPay
     cancellationToken: participant.cancellationToken,
     eventName: participant.event.name,
     payAmount: participant.payAmount,
+    refundAmount: getRefundAmount(participant.payAmount ?? 0, date, cancellationPolicy),
     departureTime: format(participant.event.date, "HH:mm"),
     note: participant.note,
     cancellationDisabled: !isCancelable,
     hasCancelled,
+    refundState: getParticipantRefundState(participant.swishRefunds),
   }
   return res;
 };
 
+type RefundableParticipant = Prisma.ParticipantGetPayload<{
+  include: {
+    event: {
+      include: {
+        cancellationPolicy: {
+          include: {
+            tiers: true;
+          };
+        };
+      };
+    };
+    swishRefunds: true;
+  };
+}>;
+
+/**
+ * Refunds travellers cancelling themselves, according to the cancellation policy.
+ * @returns the id of the refund
+ */
+const requestRefund = async (
+  swishPayment: SwishPayment,
+  participants: RefundableParticipant[],
+  prisma: PrismaClient
+) => {
+  const [participant] = participants;
+  if (!participant) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Participant not found"
+    });
+  }
+
+  const { event } = participant;
+
+  if (!isEventCancelable(event.date, event.cancellationPolicy)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Avbokning är inte längre möjlig"
+    });
+  }
+
+  const amount = participants.reduce(
+    (acc, p) =>
+      acc +
+      getRefundAmount(p.payAmount ?? 0, event.date, event.cancellationPolicy),
+    0
+  );
+
+  return requestParticipantRefund(swishPayment, participants, amount, prisma);
+};
+
 export const eventPaymentRouter = createTRPCRouter({
   requestSwishPayment: publicProcedure
+    .use(rateLimit({ name: "event-payment", limit: 10, windowMs: 10 * 60 * 1000 }))
     .input(
       z.object({
         participants: participantSchema.array().min(1),
-        eventId: z.string()
+        eventId: z.string(),
+        waitlistToken: z.string().optional(),
+        swishFlow: swishFlowSchema.default("ecommerce")
       })
     )
     .mutation(async ({ input, ctx }) => {
@@ -135,6 +220,84 @@ export const eventPaymentRouter = createTRPCRouter({
         });
       }
 
+      // Bookings made while logged in end up on the profile
+      if (ctx.session?.user) {
+        const booker = await ctx.prisma.user.findUnique({
+          where: {
+            id: ctx.session.user.id
+          }
+        });
+        assertEmailVerified(booker, "Verifiera din email innan du bokar, du hittar länken under Mitt konto");
+      }
+
+      const waitlistOffer = input.waitlistToken
+        ? await ctx.prisma.waitlistEntry.findUnique({
+            where: {
+              offerToken: input.waitlistToken
+            }
+          })
+        : null;
+
+      if (input.waitlistToken) {
+        const isValidOffer =
+          waitlistOffer?.status === WaitlistStatus.OFFERED &&
+          waitlistOffer.eventId === event.id &&
+          !!waitlistOffer.offerExpiresAt &&
+          waitlistOffer.offerExpiresAt > new Date();
+        if (!isValidOffer) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Erbjudandet har gått ut"
+          });
+        }
+        // An offer is for a single seat on the bus it was offered on
+        if (
+          input.participants.length !== 1 ||
+          input.participants[0]?.busId !== waitlistOffer.busId
+        ) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Erbjudandet gäller en plats på den erbjudna bussen"
+          });
+        }
+      }
+
+      const duplicateMembers = getDuplicateMemberClaims(input.participants);
+      if (duplicateMembers.length) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `${duplicateMembers
+            .map((participant) => participant.name)
+            .join(", ")} har samma email eller telefonnummer. Ett medlemskap ger medlemspris för en resenär.`
+        });
+      }
+
+      // Member prices are only given to travellers we can find a membership
+      // for, of a type that gives their price tier
+      const memberClaims = await Promise.all(
+        input.participants.map(async (participant) => ({
+          participant,
+          verified:
+            participant.member &&
+            (await hasActiveMembership(
+              participant,
+              membershipTypesForPrice(participant.youth),
+              ctx.prisma
+            ))
+        }))
+      );
+      const unverifiedMembers = memberClaims.filter(
+        ({ participant, verified }) => participant.member && !verified
+      );
+      if (unverifiedMembers.length) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Vi hittar inget aktivt medlemskap för ${unverifiedMembers
+            .map(({ participant }) => participant.name)
+            .join(", ")}. Ange samma email eller telefonnummer som på medlemskapet, eller boka utan medlemspris. Ungdomsmedlemspris kräver ett ungdomsmedlemskap.`
+        });
+      }
+
       const cost = calculateCost(input.participants, event);
 
       // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
@@ -142,57 +305,128 @@ export const eventPaymentRouter = createTRPCRouter({
       const message = `${event.name}. ${input.participants.length} resenärer`
         .slice(0, 50)
         .replaceAll("/", "-");
+      const callbackSecret = createCallbackSecret();
       const data = createPaymentIntentPayload({
         message,
-        payerAlias: payer.phone,
+        payerAlias: input.swishFlow === "ecommerce" ? payer.phone : undefined,
         amount: cost,
-        callbackEndPoint: "swishEventCallback"
+        callbackEndPoint: "swishEventCallback",
+        callbackSecret
       });
+      // Hold the seats while the payment is in flight. Counting and creating
+      // in one serializable transaction keeps parallel bookings from
+      // taking the same last seats.
+      const participants = await holdSeatsInTransaction(
+        ctx.prisma,
+        async (tx) => {
+          const buses = await getBusesWithSeatCount(
+            event.id,
+            tx,
+            waitlistOffer?.id
+          );
+          for (const bus of buses) {
+            const requestedSeats = input.participants.filter(
+              (p) => p.busId === bus.id
+            ).length;
+            if (requestedSeats > bus.freeSeats) {
+              throw new TRPCError({
+                code: "BAD_REQUEST",
+                message: `Det finns bara ${Math.max(
+                  bus.freeSeats,
+                  0
+                )} lediga platser kvar på ${bus.name}`
+              });
+            }
+          }
+          if (
+            input.participants.some(
+              (p) => !buses.find((bus) => bus.id === p.busId)
+            )
+          ) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message: "Bus not found"
+            });
+          }
+
+          const reservedUntil = getSeatHoldExpiry();
+          return Promise.all(
+            input.participants.map(({ consent: _consent, ...participant }) =>
+              tx.participant.create({
+                data: {
+                  ...participant,
+                  userEmail: participant.email,
+                  payAmount: getParticipantCost(participant, event),
+                  // Unverified member claims were rejected above
+                  memberVerified: participant.member,
+                  eventId: event.id,
+                  reservedUntil
+                }
+              })
+            )
+          );
+        }
+      );
+
       try {
-        // Create participants for event
-        const participants = await ctx.prisma.$transaction(
-          input.participants.map(({ consent: _consent, ...participant }) =>
-            ctx.prisma.participant.create({
-              data: {
-                ...participant,
-                userEmail: participant.email,
-                payAmount: getParticipantCost(participant, event),
-                eventId: event.id
-              }
-            })
-          )
-        );
         const res = await createPaymentRequest(data);
         const paymentRequestUrl = res.headers.location as string;
         // ID is the last part of the URL
         const paymentRequestId = paymentRequestUrl.split("/").pop() as string;
+        // Only set for m-commerce requests
+        const paymentRequestToken =
+          (res.headers.paymentrequesttoken as string | undefined) ?? null;
         // Create payment request in our database
         const paymentIntent = await ctx.prisma.swishPayment.create({
           data: {
             paymentRequestUrl,
             paymentId: paymentRequestId,
-            payerAlias: payer.phone,
+            payerAlias: data.payerAlias,
             payeeAlias: data.payeeAlias,
             amount: cost,
             message: message,
             status: SwishPaymentStatus.CREATED,
+            callbackSecret,
+            paymentRequestToken,
             participants: {
               connect: participants.map((p) => ({ id: p.id }))
             }
           }
         });
-        return paymentIntent.paymentId;
+        // Accepted once paid, a failed payment leaves the offer open
+        if (waitlistOffer) {
+          await ctx.prisma.waitlistEntry.update({
+            where: {
+              id: waitlistOffer.id
+            },
+            data: {
+              swishPaymentId: paymentIntent.id
+            }
+          });
+        }
+        return {
+          paymentId: paymentIntent.paymentId,
+          paymentRequestToken,
+          qrCode: paymentRequestToken
+            ? await getPaymentQrCode(paymentRequestToken)
+            : null
+        };
       } catch (err) {
         console.error("Error creating payment request");
         const error = err as { response: { data: any } };
         console.error(error);
         console.error(error?.response?.data);
+        await releaseSeatHolds(
+          participants.map((p) => p.id),
+          ctx.prisma
+        );
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR"
         });
       }
     }),
   cancelBooking: publicProcedure
+    .use(rateLimit({ name: "cancel-booking", limit: 20, windowMs: 15 * 60 * 1000, identifierField: "token" }))
     .input(z.object({ token: z.string() }))
     .mutation(async ({ input, ctx }) => {
       const participant = await ctx.prisma.participant.findFirst({
@@ -201,7 +435,16 @@ export const eventPaymentRouter = createTRPCRouter({
         },
         include: {
           swishPayments: true,
-          event: true
+          swishRefunds: true,
+          event: {
+            include: {
+              cancellationPolicy: {
+                include: {
+                  tiers: true
+                }
+              }
+            }
+          }
         }
       });
 
@@ -212,81 +455,88 @@ export const eventPaymentRouter = createTRPCRouter({
         });
       }
 
-      // You can't cancel within 48 hours of the departure
-      const twoDaysBeforeDeparture = subDays(participant.event.date, 2);
-      const today = new Date();
-      const isWithin48Hours = isWithinInterval(today, {
-        start: twoDaysBeforeDeparture,
-        end: participant.event.date
-      });
+      const swishPayment = participant.swishPayments.find(
+        (p) => p.status === SwishPaymentStatus.PAID
+      );
 
-      if (isWithin48Hours) {
+      if (!swishPayment) {
         throw new TRPCError({
           code: "BAD_REQUEST",
-          message: "Du kan inte avboka inom 48h"
+          message: "Payment not found"
         });
       }
 
-      const { swishPayments, payAmount, event } = participant;
+      return requestRefund(swishPayment, [participant], ctx.prisma);
+    }),
+  cancelBookings: publicProcedure
+    .use(rateLimit({ name: "cancel-booking", limit: 20, windowMs: 15 * 60 * 1000, identifierField: "token" }))
+    .input(
+      z.object({
+        // Token of the payer managing the booking
+        token: z.string(),
+        cancellationTokens: z.string().array().min(1)
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const payer = await ctx.prisma.participant.findFirst({
+        where: {
+          cancellationToken: input.token
+        },
+        include: {
+          swishPayments: {
+            where: {
+              status: SwishPaymentStatus.PAID
+            },
+            include: {
+              participants: {
+                include: {
+                  event: {
+                    include: {
+                      cancellationPolicy: {
+                        include: {
+                          tiers: true
+                        }
+                      }
+                    }
+                  },
+                  swishRefunds: true
+                }
+              }
+            }
+          }
+        }
+      });
 
-      const swishPayment = swishPayments?.find(
-        (p) => p.status === SwishPaymentStatus.PAID
-      );
+      const [swishPayment] = payer?.swishPayments ?? [];
 
-      if (!swishPayment || !payAmount) {
+      if (!payer || !swishPayment) {
         throw new TRPCError({
           code: "BAD_REQUEST",
           message: "Payment not found"
         });
       }
 
-      if (!event) {
+      if (!isSamePhoneNumber(payer.phone, swishPayment.payerAlias ?? "")) {
         throw new TRPCError({
           code: "BAD_REQUEST",
-          message: `No related event to participant: ${participant.id}`
+          message: "You are not the payer"
         });
       }
-      const [eventNameShort] = event.name.replaceAll("/", "-").split(" ");
-      const message = `Återbetalning: ${eventNameShort ?? ""}, ${
-        participant.name
-      }`;
-      const refundData = {
-        originalPaymentReference: swishPayment.paymentId,
-        callbackUrl: `${env.API_URL}/payment/swishEventCallback`,
-        payerAlias: "1234679304",
-        amount: payAmount,
-        currency: "SEK",
-        message
-      };
 
-      try {
-        const res = await createRefundRequest(refundData);
-        const refundRequestUrl = res.headers.location as string;
-        // ID is the last part of the URL
-        const refundRequestId = refundRequestUrl.split("/").pop() as string;
-        const refundIntent = await ctx.prisma.swishRefund.create({
-          data: {
-            refundId: refundRequestId,
-            paymentId: swishPayment.id,
-            paymentReference: swishPayment.paymentReference,
-            payerAlias: refundData.payerAlias,
-            payeeAlias: swishPayment.payerAlias,
-            amount: refundData.amount,
-            message: refundData.message,
-            status: "CREATED",
-            participantId: participant.id
-          }
-        });
+      const participants = swishPayment.participants.filter(
+        (p) =>
+          !!p.cancellationToken &&
+          input.cancellationTokens.includes(p.cancellationToken)
+      );
 
-        return refundIntent.refundId;
-      } catch (err) {
-        console.error("Error creating refund request");
-        const error = err as { response: { data: any } };
-        console.error(error?.response?.data);
+      if (participants.length !== new Set(input.cancellationTokens).size) {
         throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR"
+          code: "BAD_REQUEST",
+          message: "Resenären finns inte på bokningen"
         });
       }
+
+      return requestRefund(swishPayment, participants, ctx.prisma);
     }),
   checkPaymentStatus: publicProcedure
     .input(z.object({ paymentId: z.string() }))
@@ -298,17 +548,13 @@ export const eventPaymentRouter = createTRPCRouter({
     .mutation(async ({ input, ctx }) => {
       return checkRefundStatus(input.refundId, ctx.prisma);
     }),
-  swishPaymentCallback: publicProcedure
+  swishPaymentCallback: swishProcedure
     .input(swishCallbackPaymentSchema)
     .mutation(async ({ input, ctx }) => {
-      // TODO: Protect this endpoint with a secret
       console.info("SWISH PAYMENT CALLBACK", input);
-      const originalPayment = await ctx.prisma.swishPayment.findFirst({
+      const originalPayment = await ctx.prisma.swishPayment.findUnique({
         where: {
           paymentId: input.id
-        },
-        include: {
-          participants: true
         }
       });
 
@@ -319,68 +565,36 @@ export const eventPaymentRouter = createTRPCRouter({
         });
       }
 
-      const newPayment = await ctx.prisma.swishPayment.create({
-        include: {
-          participants: {
-            include: {
-              bus: true,
-              event: true
-            }
-          }
-        },
-        data: {
-          paymentId: input.id,
-          payerAlias: input.payerAlias,
-          payeeAlias: input.payeeAlias,
-          amount: input.amount,
-          message: input.message,
-          paymentReference: input.paymentReference,
-          paymentRequestUrl: originalPayment.paymentRequestUrl,
-          createdAt: new Date(input.dateCreated),
-          updatedAt: new Date(),
-          status: input.status,
-          errorCode: input.errorCode,
-          errorMessage: input.errorMessage,
-          participants: {
-            connect: originalPayment.participants.map((p) => ({ id: p.id }))
-          }
-        }
-      });
+      if (!isValidCallbackSecret(originalPayment.callbackSecret, ctx.swishSecret)) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "Invalid callback secret"
+        });
+      }
 
-      if (newPayment.status === SwishPaymentStatus.PAID) {
-        try {
-          console.log("participants", newPayment.participants);
-          console.log(
-            "Sending confirmation email to: ",
-            newPayment.participants.map((p) => p.email).join(", ")
-          );
-          await Promise.all(
-            newPayment.participants.map((p) => sendConfirmationEmail(p))
-          );
-        } catch (error) {
-          console.error("Error sending confirmation email");
-          console.error(error);
-          // Don't return error to Swish
-        }
+      if (!isMatchingPaymentCallback(originalPayment, input)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Callback does not match payment"
+        });
       }
 
+      await processEventPaymentCallback(input, originalPayment, ctx.prisma);
+
       console.log("SWISH CALLBACK");
       console.log("input", input);
       return {
         status: 200
       };
     }),
-  swishRefundCallback: publicProcedure
+  swishRefundCallback: swishProcedure
     .input(swishCallbackRefundSchema)
     .mutation(async ({ input, ctx }) => {
       console.log("SWISH REFUND CALLBACK", input);
       try {
-        const refundIntent = await ctx.prisma.swishRefund.findFirst({
+        const refundIntent = await ctx.prisma.swishRefund.findUnique({
           where: {
             refundId: input.id
-          },
-          include: {
-            participant: true
           }
         });
 
@@ -391,40 +605,21 @@ export const eventPaymentRouter = createTRPCRouter({
           });
         }
 
-        if (!refundIntent.participant) {
+        if (!isValidCallbackSecret(refundIntent.callbackSecret, ctx.swishSecret)) {
           throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: "Refund has no participant"
+            code: "UNAUTHORIZED",
+            message: "Invalid callback secret"
           });
         }
 
-        await ctx.prisma.swishRefund.create({
-          include: {
-            participant: true
-          },
-          data: {
-            refundId: input.id,
-            paymentId: refundIntent.paymentId,
-            payerAlias: input.payerAlias,
-            payeeAlias: input.payeeAlias || refundIntent.payeeAlias,
-            amount: input.amount,
-            message: input.message,
-            paymentReference: input.originalPaymentReference,
-            createdAt: new Date(input.dateCreated),
-            updatedAt: new Date(),
-            status: input.status,
-            participantId: refundIntent.participant.id
-          }
-        });
+        if (!isMatchingRefundCallback(refundIntent, input)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Callback does not match refund"
+          });
+        }
 
-        await ctx.prisma.participant.update({
-          where: {
-            id: refundIntent.participant.id
-          },
-          data: {
-            cancellationDate: new Date()
-          }
-        });
+        await processEventRefundCallback(input, refundIntent, ctx.prisma);
       } catch (err) {
         console.error(err);
         throw err;
@@ -440,14 +635,30 @@ export const eventPaymentRouter = createTRPCRouter({
         },
         select: {
           phone: true,
-          event: true,
+          event: {
+            include: {
+              cancellationPolicy: {
+                include: {
+                  tiers: true
+                }
+              }
+            }
+          },
           swishPayments: {
             select: {
               id: true,
               payerAlias: true,
               participants: {
                 include: {
-                  event: true,
+                  event: {
+                    include: {
+                      cancellationPolicy: {
+                        include: {
+                          tiers: true
+                        }
+                      }
+                    }
+                  },
                   swishRefunds: true
                 }
               },
@@ -481,7 +692,7 @@ export const eventPaymentRouter = createTRPCRouter({
       }
 
       const participants = payment.participants.map(participantFormatter); 
-      const isPayer = isSamePhoneNumber(payer.phone, payment.payerAlias);
+      const isPayer = isSamePhoneNumber(payer.phone, payment.payerAlias ?? "");
       if (!isPayer) {
         throw new TRPCError({
           code: "BAD_REQUEST",
@@ -493,6 +704,7 @@ export const eventPaymentRouter = createTRPCRouter({
         participants,
         eventName: payer.event.name,
         departureTime: format(payer.event.date, "HH:mm"),
+        cancellationTerms: describeCancellationPolicy(payer.event.cancellationPolicy),
       }
     })
 });
@@ -0,0 +1,150 @@
+import { MembershipType, SwishPaymentStatus } from "@prisma/client";
+import { addMonths, subMonths } from "date-fns";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createTestCaller,
+  hasTestDatabase,
+  resetDatabase,
+  testPrisma
+} from "~/test/caller";
+import {
+  createPaymentCallback,
+  getCallbackSecret,
+  getPaymentRequest,
+  resetStubs,
+  sentEmailsTo
+} from "~/test/stubs";
+
+vi.mock("resend", () => import("~/test/stubs").then((stubs) => stubs.resendModule));
+vi.mock("~/utils/swishHelpers", async (importOriginal) => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  ...(await import("~/test/stubs")).swishHelpersStub
+}));
+
+const EMAIL = "anna@example.com";
+const HOUSEHOLD_EMAIL = "bertil@example.com";
+
+const createMembership = () =>
+  testPrisma.membership.create({
+    data: {
+      name: "Medlemskap 2026",
+      wordpressId: "1",
+      imageUrl: "",
+      type: MembershipType.FAMILY,
+      price: 400,
+      startDate: subMonths(new Date(), 1),
+      endDate: addMonths(new Date(), 11)
+    }
+  });
+
+const createUser = () =>
+  testPrisma.user.create({
+    data: {
+      firstName: "Anna",
+      lastName: "Andersson",
+      email: EMAIL,
+      emailVerified: new Date()
+    }
+  });
+
+const buyMembership = async (membershipId: string) => {
+  const { paymentId } = await createTestCaller().memberPayment.requestSwishPayment({
+    firstName: "Anna",
+    lastName: "Andersson",
+    email: EMAIL,
+    acceptedTerms: true,
+    membershipType: MembershipType.FAMILY,
+    membershipId,
+    phone: "0701234567",
+    swishFlow: "ecommerce",
+    additionalMembers: [
+      {
+        firstName: "Bertil",
+        lastName: "Andersson",
+        email: HOUSEHOLD_EMAIL,
+        membershipType: MembershipType.FAMILY
+      }
+    ]
+  });
+  return paymentId;
+};
+
+const sendPaymentCallback = (
+  paymentId: string,
+  status: SwishPaymentStatus = SwishPaymentStatus.PAID
+) => {
+  const callback = createPaymentCallback(paymentId, status);
+  return createTestCaller({
+    swishSecret: getCallbackSecret(callback.callbackUrl)
+  }).memberPayment.swishPaymentCallback(callback);
+};
+
+const getMembershipIds = async (userId: string) => {
+  const user = await testPrisma.user.findUniqueOrThrow({
+    where: {
+      id: userId
+    },
+    include: {
+      memberShips: true
+    }
+  });
+  return user.memberShips.map((membership) => membership.id);
+};
+
+describe.skipIf(!hasTestDatabase)("memberPaymentRouter", () => {
+  beforeEach(async () => {
+    await resetDatabase();
+    resetStubs();
+  });
+
+  afterAll(() => testPrisma.$disconnect());
+
+  it("gives the membership to the payer and invites the household", async () => {
+    const membership = await createMembership();
+    const user = await createUser();
+
+    const paymentId = await buyMembership(membership.id);
+    expect(getPaymentRequest(paymentId)).toMatchObject({ amount: 400 });
+    expect(await getMembershipIds(user.id)).toEqual([]);
+
+    await sendPaymentCallback(paymentId);
+
+    expect(await getMembershipIds(user.id)).toEqual([membership.id]);
+    expect(sentEmailsTo(EMAIL)).toMatchObject([
+      { subject: "Tack för att du blivit medlem i Västra Sidan" }
+    ]);
+    expect(sentEmailsTo(HOUSEHOLD_EMAIL)).toMatchObject([
+      { subject: "Du har fått ett familjemedlemskap i Västra Sidan" }
+    ]);
+    const householdMember = await testPrisma.householdMember.findFirstOrThrow({
+      where: {
+        email: HOUSEHOLD_EMAIL
+      }
+    });
+    expect(householdMember.invitedAt).toBeInstanceOf(Date);
+  });
+
+  it("sends one confirmation and invite for duplicate callbacks", async () => {
+    const membership = await createMembership();
+    await createUser();
+    const paymentId = await buyMembership(membership.id);
+
+    await sendPaymentCallback(paymentId);
+    await sendPaymentCallback(paymentId);
+
+    expect(sentEmailsTo(EMAIL)).toHaveLength(1);
+    expect(sentEmailsTo(HOUSEHOLD_EMAIL)).toHaveLength(1);
+  });
+
+  it("doesn't give the membership for a declined payment", async () => {
+    const membership = await createMembership();
+    const user = await createUser();
+    const paymentId = await buyMembership(membership.id);
+
+    await sendPaymentCallback(paymentId, SwishPaymentStatus.DECLINED);
+
+    expect(await getMembershipIds(user.id)).toEqual([]);
+    expect(sentEmailsTo(EMAIL)).toHaveLength(0);
+    expect(sentEmailsTo(HOUSEHOLD_EMAIL)).toHaveLength(0);
+  });
+});
@@ -1,27 +1,43 @@
 import { z } from "zod";
-import { checkPaymentStatus } from "~/server/utils/payment";
+import {
+  checkPaymentStatus,
+  isMatchingPaymentCallback,
+  isMatchingRefundCallback
+} from "~/server/utils/payment";
 import {
   memberSignupSchema,
   swishCallbackPaymentSchema,
   swishCallbackRefundSchema
 } from "~/utils/zodSchemas";
-import { createTRPCRouter, membershipProcedure } from "../trpc";
-import { SwishPaymentStatus } from "@prisma/client";
+import {
+  createTRPCRouter,
+  membershipProcedure,
+  rateLimit,
+  swishMembershipProcedure
+} from "../trpc";
+import { MembershipType, SwishPaymentStatus } from "@prisma/client";
 import { TRPCError } from "@trpc/server";
 import { createPaymentIntentPayload } from "~/utils/payment";
-import { createPaymentRequest } from "~/utils/swishHelpers";
-import { Resend } from "resend";
-import { env } from "~/env.mjs";
-import MemberSignup from "~/components/emails/MemberSignUp";
+import {
+  createCallbackSecret,
+  createPaymentRequest,
+  getPaymentQrCode,
+  isValidCallbackSecret
+} from "~/utils/swishHelpers";
+import { assertEmailVerified } from "~/server/utils/emailVerification";
+import { assertHouseholdSize } from "~/server/utils/household";
 import { friendlyMembershipNames } from "~/server/utils/membership";
-
-const resend = new Resend(env.RESEND_API_KEY);
+import {
+  processMemberPaymentCallback,
+  processMemberRefundCallback
+} from "~/server/utils/swishCallbacks";
 
 export const memberPaymentRouter = createTRPCRouter({
   requestSwishPayment: membershipProcedure
+    .use(rateLimit({ name: "member-payment", limit: 10, windowMs: 10 * 60 * 1000, identifierField: "email" }))
     .input(memberSignupSchema)
     .mutation(async ({ ctx, input }) => {
-      const { membershipId, phone } = input;
+      const { membershipId, phone, swishFlow } = input;
 
       const membership = await ctx.prisma.membership.findUnique({
         where: {
@@ -54,6 +70,8 @@ export const memberPaymentRouter = createTRPCRouter({
         }
       });
 
+      assertEmailVerified(user, "Verifiera din email innan du köper medlemskap, du hittar länken under Mitt konto");
+
       // Check if user already has a membership
       if (
         user?.memberShips.find((x) => x.wordpressId === membership.wordpressId)
@@ -64,13 +82,26 @@ export const memberPaymentRouter = createTRPCRouter({
         });
       }
 
+      // Invited once the membership is paid, one invite per email
+      const householdMembers =
+        membership.type === MembershipType.FAMILY
+          ? (input.additionalMembers ?? []).filter(
+              (member, index, members) =>
+                member.email !== input.email &&
+                members.findIndex((x) => x.email === member.email) === index
+            )
+          : [];
+      assertHouseholdSize(membership.type, householdMembers.length);
+
+      const callbackSecret = createCallbackSecret();
       const paymentIntentData = createPaymentIntentPayload({
         message: `${membership.name}, ${
           friendlyMembershipNames[membership.type]
         }`,
         amount: membership.price,
-        payerAlias: phone,
-        callbackEndPoint: "swishMemberCallback"
+        payerAlias: swishFlow === "ecommerce" ? phone : undefined,
+        callbackEndPoint: "swishMemberCallback",
+        callbackSecret
       });
 
       try {
@@ -78,23 +109,40 @@ export const memberPaymentRouter = createTRPCRouter({
         const paymentRequestUrl = res.headers.location as string;
         // ID is the last part of the URL
         const paymentRequestId = paymentRequestUrl.split("/").pop() as string;
+        // Only set for m-commerce requests
+        const paymentRequestToken =
+          (res.headers.paymentrequesttoken as string | undefined) ?? null;
         // Create payment request in our database
         const paymentIntent = await ctx.prisma.swishPayment.create({
           data: {
             paymentRequestUrl,
             paymentId: paymentRequestId,
-            payerAlias: phone,
+            payerAlias: paymentIntentData.payerAlias,
             payeeAlias: paymentIntentData.payeeAlias,
             amount: membership.price,
             message: paymentIntentData.message,
             status: SwishPaymentStatus.CREATED,
+            callbackSecret,
+            paymentRequestToken,
             memberShipId: membershipId,
-            userId: user?.id
             // Connect to a user if they are logged in
+            userId: user?.id,
+            householdMembers: {
+              create: householdMembers.map((member) => ({
+                firstName: member.firstName,
+                lastName: member.lastName,
+                email: member.email,
+                membershipId
+              }))
+            }
           }
         });
         return {
-          paymentId: paymentIntent.paymentId
+          paymentId: paymentIntent.paymentId,
+          paymentRequestToken,
+          qrCode: paymentRequestToken
+            ? await getPaymentQrCode(paymentRequestToken)
+            : null
         };
       } catch (err) {
         console.error("Error creating payment request");
@@ -111,18 +159,13 @@ export const memberPaymentRouter = createTRPCRouter({
     .mutation(async ({ ctx, input }) => {
       return checkPaymentStatus(input.paymentId, ctx.prisma);
     }),
-  swishPaymentCallback: membershipProcedure
+  swishPaymentCallback: swishMembershipProcedure
     .input(swishCallbackPaymentSchema)
     .mutation(async ({ input, ctx }) => {
-      // TODO: Protect this endpoint with a secret
       console.info("SWISH PAYMENT CALLBACK", input);
-      const originalPayment = await ctx.prisma.swishPayment.findFirst({
+      const originalPayment = await ctx.prisma.swishPayment.findUnique({
         where: {
-          paymentId: input.id,
-        },
-        include: {
-          memberShip: true,
-          user: true
+          paymentId: input.id
         }
       });
       console.log("originalPayment", originalPayment);
@@ -133,89 +176,34 @@ export const memberPaymentRouter = createTRPCRouter({
         });
       }
 
-      if (!originalPayment.memberShip) {
+      if (!isValidCallbackSecret(originalPayment.callbackSecret, ctx.swishSecret)) {
         throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: "Membership not found"
+          code: "UNAUTHORIZED",
+          message: "Invalid callback secret"
         });
       }
 
-      const newPayment = await ctx.prisma.swishPayment.create({
-        include: {
-          memberShip: true,
-          user: true
-        },
-        data: {
-          paymentId: input.id,
-          payerAlias: input.payerAlias,
-          payeeAlias: input.payeeAlias,
-          amount: input.amount,
-          message: input.message,
-          paymentReference: input.paymentReference,
-          paymentRequestUrl: originalPayment.paymentRequestUrl,
-          createdAt: new Date(input.dateCreated),
-          updatedAt: new Date(),
-          status: input.status,
-          errorCode: input.errorCode,
-          errorMessage: input.errorMessage,
-          userId: originalPayment.userId,
-          memberShipId: originalPayment.memberShipId
-        },
-      });
-
-      if (newPayment.status === SwishPaymentStatus.PAID) {
-        try {
-          if (newPayment.user && newPayment.memberShipId) {
-            await ctx.prisma.user.update({
-              where: {
-                id: newPayment.user.id
-              },
-              data: {
-                memberShips: {
-                  connect: {
-                    id: newPayment.memberShipId
-                  }
-                },
-                phone: input.payerAlias
-              }
-            });
-          }
-
-          if (!newPayment.user?.email) {
-            throw new TRPCError({
-              code: "INTERNAL_SERVER_ERROR",
-              message: "User email not found for payment id " + newPayment.id
-            })
-          }
-
-          // Send confirmation email
-          await resend.sendEmail({
-            from: env.BOOKING_EMAIL,
-            to: env.USE_DEV_MODE === "true" ? "filip.nystrand@gmail.com" : newPayment.user.email,
-            subject: "Tack för att du blivit medlem i Västra Sidan",
-            react: MemberSignup({
-              membership: newPayment.memberShip || originalPayment.memberShip
-            })
-          });
-        } catch (error) {
-          console.error("Error sending confirmation email");
-          console.error(error);
-          // Don't return error to Swish
-        }
+      if (!isMatchingPaymentCallback(originalPayment, input)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Callback does not match payment"
+        });
       }
 
+      await processMemberPaymentCallback(input, originalPayment, ctx.prisma);
+
       console.log("SWISH CALLBACK");
       console.log("input", input);
       return {
         status: 200
       };
     }),
-  swishRefundCallback: membershipProcedure
+  swishRefundCallback: swishMembershipProcedure
     .input(swishCallbackRefundSchema)
     .mutation(async ({ input, ctx }) => {
       console.log("SWISH REFUND CALLBACK", input);
       try {
-        const refundIntent = await ctx.prisma.swishRefund.findFirst({
+        const refundIntent = await ctx.prisma.swishRefund.findUnique({
           where: {
             refundId: input.id
           }
@@ -228,23 +216,21 @@ export const memberPaymentRouter = createTRPCRouter({
           });
         }
 
-        await ctx.prisma.swishRefund.create({
-          include: {
-            participant: true
-          },
-          data: {
-            refundId: input.id,
-            paymentId: refundIntent.paymentId,
-            payerAlias: input.payerAlias,
-            payeeAlias: input.payeeAlias || refundIntent.payeeAlias,
-            amount: input.amount,
-            message: input.message,
-            paymentReference: input.originalPaymentReference,
-            createdAt: new Date(input.dateCreated),
-            updatedAt: new Date(),
-            status: input.status
-          }
-        });
+        if (!isValidCallbackSecret(refundIntent.callbackSecret, ctx.swishSecret)) {
+          throw new TRPCError({
+            code: "UNAUTHORIZED",
+            message: "Invalid callback secret"
+          });
+        }
+
+        if (!isMatchingRefundCallback(refundIntent, input)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Callback does not match refund"
+          });
+        }
+
+        await processMemberRefundCallback(input, refundIntent, ctx.prisma);
       } catch (err) {
         console.error(err);
         throw err;
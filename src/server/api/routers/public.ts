@@ -1,43 +1,32 @@
-import {
-  MembershipType,
-  SwishPaymentStatus,
-  SwishRefundStatus
-} from "@prisma/client";
+import { MembershipType } from "@prisma/client";
 import { TRPCError } from "@trpc/server";
 import { subHours } from "date-fns";
 import { z } from "zod";
 import { createTRPCRouter, membershipProcedure, publicProcedure } from "~/server/api/trpc";
+import { env } from "~/env.mjs";
 import { getCardSkipperMemberCount } from "~/server/utils/cardSkipper";
+import { getMemberCount } from "~/server/utils/membership";
+import { getMembershipCard } from "~/server/utils/membershipCard";
+import { bookedPassengerWhere, getBusesWithSeatCount } from "~/server/utils/seats";
 
-const busesWithPaidPassengers = {
+const busesWithBookedPassengers = () => ({
   buses: {
     include: {
       _count: {
         select: {
           passengers: {
-            where: {
-              swishPayments: {
-                some: {
-                  status: SwishPaymentStatus.PAID
-                }
-              },
-              swishRefunds: {
-                none: {
-                  status: SwishRefundStatus.PAID
-                }
-              }
-            }
+            where: bookedPassengerWhere()
           }
         }
       }
     }
   }
-};
+});
 
 export const publicRouter = createTRPCRouter({
   getAwayGames: publicProcedure.query(async ({ ctx }) => {
     const res = await ctx.prisma.vastraEvent.findMany({
-      include: busesWithPaidPassengers,
+      include: busesWithBookedPassengers(),
       where: {
         date: {
           gte: subHours(new Date(), 8)
@@ -62,7 +51,7 @@ export const publicRouter = createTRPCRouter({
         where: {
           id: input.id
         },
-        include: busesWithPaidPassengers,
+        include: busesWithBookedPassengers(),
       });
 
       if (!res) {
@@ -71,30 +60,93 @@ export const publicRouter = createTRPCRouter({
 
       return res;
     }),
+  /**
+   * Small enough to poll, so booking pages can show seats as they are paid or refunded
+   */
+  getSeatAvailability: publicProcedure
+    .input(z.object({ eventId: z.string().optional() }))
+    .query(async ({ ctx, input }) => {
+      const eventIds = input.eventId
+        ? [input.eventId]
+        : (
+            await ctx.prisma.vastraEvent.findMany({
+              where: { date: { gte: subHours(new Date(), 8) } },
+              select: { id: true }
+            })
+          ).map((event) => event.id);
+      // Counted like the booking does, seats offered from the waitlist are taken
+      const buses = await Promise.all(
+        eventIds.map((eventId) => getBusesWithSeatCount(eventId, ctx.prisma))
+      );
+      return buses.flat().map((bus) => ({
+        id: bus.id,
+        eventId: bus.eventId,
+        seats: bus.seats,
+        bookedSeats: bus.seats - bus.freeSeats
+      }));
+    }),
   getAvailableMemberships: membershipProcedure.query(async ({ ctx }) => {
+    const now = new Date();
     const res = await ctx.prisma.membership.findMany({
       where: {
         endDate: {
-          gt: new Date()
+          gt: now
         }
       },
+      orderBy: {
+        startDate: "asc"
+      },
       select: {
         type: true,
         id: true,
+        name: true,
         imageUrl: true,
         price: true,
+        startDate: true
       }
     });
+    // New members join the season that is running, between seasons the next one
+    const current = res.filter((m) => m.startDate <= now);
+    const findSeason = (type: MembershipType) =>
+      current.length
+        ? current.filter((m) => m.type === type).pop()
+        : res.find((m) => m.type === type);
+    // Offered on its own once synced, so members can renew early
+    const upcoming = current.length ? res.filter((m) => m.startDate > now) : [];
+    const findUpcoming = (type: MembershipType) => upcoming.find((m) => m.type === type);
     return {
-      regular: res.find((m) => m.type === MembershipType.REGULAR),
-      family: res.find((m) => m.type === MembershipType.FAMILY),
-      youth: res.find((m) => m.type === MembershipType.YOUTH)
+      regular: findSeason(MembershipType.REGULAR),
+      family: findSeason(MembershipType.FAMILY),
+      youth: findSeason(MembershipType.YOUTH),
+      nextSeason: {
+        regular: findUpcoming(MembershipType.REGULAR),
+        family: findUpcoming(MembershipType.FAMILY),
+        youth: findUpcoming(MembershipType.YOUTH)
+      }
     };
   }),
+  // Partners scan the QR on a membership card to check it
+  verifyMembershipCard: membershipProcedure
+    .input(z.object({ token: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const card = await getMembershipCard(input.token, ctx.prisma);
+      return {
+        valid: card.valid,
+        name: card.name,
+        membershipName: card.membershipName,
+        membershipType: card.membershipType,
+        startDate: card.startDate,
+        endDate: card.endDate
+      };
+    }),
   getStartPage: publicProcedure.query(async ({ ctx }) => {
-    const memberCount = await getCardSkipperMemberCount();
+    // Cardskipper members are only in the users table once the cron syncs them
+    const memberCount =
+      env.CARDSKIPPER_SYNC === "true"
+        ? await getMemberCount(ctx.prisma)
+        : await getCardSkipperMemberCount();
     const upcomingEvent = await ctx.prisma.vastraEvent.findFirst({
-      include: busesWithPaidPassengers,
+      include: busesWithBookedPassengers(),
       where: {
         date: {
           gte: subHours(new Date(), 8)
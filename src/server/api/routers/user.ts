@@ -1,42 +1,58 @@
 import { Role, SwishPaymentStatus, SwishRefundStatus, type Membership, type Prisma } from "@prisma/client";
 import { TRPCError } from "@trpc/server";
 import { format } from "date-fns";
-import { Resend } from "resend";
 import { z } from "zod";
-import UserSignup from "~/components/emails/UserSignup";
-import { env } from "~/env.mjs";
 import {
   createTRPCRouter,
   publicProcedure,
+  rateLimit,
   userProcedure
 } from "~/server/api/trpc";
-import { sha256 } from "~/server/auth";
 import { isSamePhoneNumber } from "~/server/utils/helpers";
+import {
+  assertHouseholdSize,
+  claimHouseholdInvite,
+  getManagedHouseholdMember,
+  getManagedHouseholds,
+  sendHouseholdInvite
+} from "~/server/utils/household";
 import { friendlyMembershipNames } from "~/server/utils/membership";
-import { signupSchema } from "~/utils/zodSchemas";
+import {
+  isEmailVerificationRequired,
+  sendVerificationEmail,
+  verifyEmail
+} from "~/server/utils/emailVerification";
+import { createMembershipCardToken } from "~/server/utils/membershipCard";
+import { hashPassword, verifyPassword } from "~/server/utils/password";
+import { requestPasswordReset, resetPassword } from "~/server/utils/passwordReset";
+import { createTicketUrl } from "~/server/utils/tickets";
+import {
+  changePasswordSchema,
+  householdMemberSchema,
+  passwordResetRequestSchema,
+  passwordResetSchema,
+  signupSchema
+} from "~/utils/zodSchemas";
 
-const membershipFormatter = (membership: Membership) => ({
+const membershipFormatter = (membership: Membership, userId: string) => ({
   id: membership.id,
   name: membership.name,
   imageUrl: membership.imageUrl,
-  type: friendlyMembershipNames[membership.type]
+  type: friendlyMembershipNames[membership.type],
+  startDate: membership.startDate,
+  endDate: membership.endDate,
+  cardToken: createMembershipCardToken(userId, membership.id)
 });
 
 
 
 type UserData = Prisma.UserGetPayload<{
   include: {
-    memberShips: {
-      where: {
-        swishPayments: {
-          some: {
-            status: "PAID"
-          }
-        }
-      }
-    },
+    memberShips: true,
     eventParticipations: {
       select: {
+        id: true,
+        eventId: true,
         cancellationToken: true,
         cancellationDate: true,
         phone: true,
@@ -85,12 +101,14 @@ const eventFormatter = (awayGame: UserData['eventParticipations'][number]) => ({
   cancellationToken: awayGame.cancellationToken,
   cancellationDate: awayGame.cancellationDate ? format(awayGame.cancellationDate, "yyyy-MM-dd HH:mm") : null,
   isPayer: isSamePhoneNumber(awayGame.phone, awayGame.swishPayments[0]?.payerAlias || ''),
+  ticketUrl: awayGame.cancellationDate || awayGame.swishRefunds.length
+    ? null
+    : createTicketUrl(awayGame),
 })
 
-const resend = new Resend(env.RESEND_API_KEY);
-
 export const userRouter = createTRPCRouter({
   createNewUser: publicProcedure
+    .use(rateLimit({ name: "signup", limit: 5, windowMs: 60 * 60 * 1000, identifierField: "email" }))
     .input(signupSchema)
     .mutation(async ({ ctx, input }) => {
       const { email, password, firstName, lastName } = input;
@@ -113,17 +131,12 @@ export const userRouter = createTRPCRouter({
           email,
           firstName,
           lastName,
-          password: sha256(password),
+          password: await hashPassword(password),
           role: Role.USER
         }
       });
 
-      await resend.sendEmail({
-        from: env.BOOKING_EMAIL,
-        to: env.USE_DEV_MODE === "true" ? "filip.nystrand@gmail.com" : email,
-        subject: "Bekräfta email din email",
-        react: UserSignup({ token: user.id })
-      });
+      await sendVerificationEmail(user, ctx.prisma);
       return {
         status: 201
       };
@@ -140,17 +153,12 @@ export const userRouter = createTRPCRouter({
         email: ctx.session.user.email
       },
       include: {
-        memberShips: {
-          where: {
-            swishPayments: {
-              some: {
-                status: "PAID"
-              }
-            }
-          }
-        },
+        // Connected once paid, with Swish or in Cardskipper
+        memberShips: true,
         eventParticipations: {
           select: {
+            id: true,
+            eventId: true,
             cancellationToken: true,
             cancellationDate: true,
             phone: true,
@@ -190,40 +198,244 @@ export const userRouter = createTRPCRouter({
       }
     });
 
+    // Bookings are linked by email, so they are only shown once it is verified
+    const eventParticipations =
+      isEmailVerificationRequired() && !user?.emailVerified
+        ? []
+        : user?.eventParticipations ?? [];
+
     return {
-      memberShips: user?.memberShips.map(membershipFormatter),
-      upcomingEvents: user?.eventParticipations
+      memberShips: user?.memberShips.map((membership) => membershipFormatter(membership, user.id)),
+      upcomingEvents: eventParticipations
         .filter((x) => x.event.date > new Date())
         .map(eventFormatter),
-      pastEvents: user?.eventParticipations
+      pastEvents: eventParticipations
         .filter((x) => x.event.date < new Date())
         .map(eventFormatter),
     };
   }),
   verifyEmail: publicProcedure
-    .input(z.object({ id: z.string() }))
+    .input(z.object({ token: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await verifyEmail(input.token, ctx.prisma);
+      return {
+        status: 200
+      };
+    }),
+  resendVerificationEmail: userProcedure.mutation(async ({ ctx }) => {
+    const user = await ctx.prisma.user.findUnique({
+      where: {
+        id: ctx.session.user.id
+      }
+    });
+    if (!user) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Bad user"
+      });
+    }
+    if (user.emailVerified) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Din email är redan verifierad"
+      });
+    }
+    await sendVerificationEmail(user, ctx.prisma);
+    return {
+      status: 200
+    };
+  }),
+  getAccount: userProcedure.query(async ({ ctx }) => {
+    const user = await ctx.prisma.user.findUnique({
+      where: {
+        id: ctx.session.user.id
+      }
+    });
+    return {
+      email: user?.email,
+      emailVerified: !!user?.emailVerified,
+      // Users who log in with a link or an external provider may not have one
+      hasPassword: !!user?.password,
+      // Bookings and membership purchases wait for a verified email
+      verificationRequired: isEmailVerificationRequired()
+    };
+  }),
+  requestPasswordReset: publicProcedure
+    .use(rateLimit({ name: "password-reset", limit: 5, windowMs: 60 * 60 * 1000, identifierField: "email" }))
+    .input(passwordResetRequestSchema)
+    .mutation(async ({ ctx, input }) => {
+      await requestPasswordReset(input.email, ctx.prisma);
+      return {
+        status: 200
+      };
+    }),
+  resetPassword: publicProcedure
+    .input(passwordResetSchema)
+    .mutation(async ({ ctx, input }) => {
+      await resetPassword(input.token, input.password, ctx.prisma);
+      return {
+        status: 200
+      };
+    }),
+  changePassword: userProcedure
+    .input(changePasswordSchema)
     .mutation(async ({ ctx, input }) => {
       const user = await ctx.prisma.user.findUnique({
         where: {
-          id: input.id
+          id: ctx.session.user.id
         }
       });
-      if (!user) {
+      const { valid } = user?.password
+        ? await verifyPassword(input.currentPassword, user.password)
+        : { valid: false };
+      if (!valid) {
         throw new TRPCError({
           code: "BAD_REQUEST",
-          message: "Bad user"
+          message: "Fel nuvarande lösenord"
         });
       }
       await ctx.prisma.user.update({
         where: {
-          id: input.id
+          id: ctx.session.user.id
         },
         data: {
-          emailVerified: new Date()
+          password: await hashPassword(input.password),
+          // Signs out every session, including this one
+          sessionsRevokedAt: new Date()
         }
       });
       return {
         status: 200
       };
+    }),
+  getHouseholds: userProcedure.query(async ({ ctx }) => {
+    const households = await getManagedHouseholds(ctx.session.user.id, ctx.prisma);
+    return households.map((household) => ({
+      paymentId: household.id,
+      membershipName: household.memberShip?.name,
+      members: household.householdMembers.map((member) => ({
+        id: member.id,
+        name: `${member.firstName} ${member.lastName}`,
+        email: member.email,
+        claimed: !!member.claimedAt,
+        invitedAt: member.invitedAt
+      }))
+    }));
+  }),
+  addHouseholdMember: userProcedure
+    .input(householdMemberSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { paymentId, ...member } = input;
+      const households = await getManagedHouseholds(ctx.session.user.id, ctx.prisma);
+      const household = households.find((x) => x.id === paymentId);
+      if (!household?.memberShip) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Familjemedlemskapet finns inte"
+        });
+      }
+      if (household.householdMembers.some((x) => x.email === member.email)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Personen finns redan i familjen"
+        });
+      }
+      assertHouseholdSize(household.memberShip.type, household.householdMembers.length + 1);
+      const created = await ctx.prisma.householdMember.create({
+        data: {
+          ...member,
+          swishPaymentId: household.id,
+          membershipId: household.memberShip.id
+        },
+        include: {
+          membership: true,
+          swishPayment: {
+            include: {
+              user: true
+            }
+          }
+        }
+      });
+      await sendHouseholdInvite(created, ctx.prisma);
+      return { status: 201 };
+    }),
+  resendHouseholdInvite: userProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const member = await getManagedHouseholdMember(input.id, ctx.session.user.id, ctx.prisma);
+      if (member.claimedAt) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Inbjudan har redan accepterats"
+        });
+      }
+      await sendHouseholdInvite(member, ctx.prisma);
+      return { status: 200 };
+    }),
+  removeHouseholdMember: userProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const member = await getManagedHouseholdMember(input.id, ctx.session.user.id, ctx.prisma);
+      await ctx.prisma.$transaction([
+        ...(member.userId
+          ? [
+              ctx.prisma.user.update({
+                where: {
+                  id: member.userId
+                },
+                data: {
+                  memberShips: {
+                    disconnect: {
+                      id: member.membershipId
+                    }
+                  }
+                }
+              })
+            ]
+          : []),
+        ctx.prisma.householdMember.delete({
+          where: {
+            id: member.id
+          }
+        })
+      ]);
+      return { status: 200 };
+    }),
+  getHouseholdInvite: publicProcedure
+    .input(z.object({ token: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const member = await ctx.prisma.householdMember.findUnique({
+        where: {
+          inviteToken: input.token
+        },
+        include: {
+          membership: true,
+          swishPayment: {
+            include: {
+              user: true
+            }
+          }
+        }
+      });
+      if (!member) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Inbjudan finns inte längre"
+        });
+      }
+      const payer = member.swishPayment.user;
+      return {
+        firstName: member.firstName,
+        email: member.email,
+        membershipName: member.membership.name,
+        inviterName: payer ? `${payer.firstName} ${payer.lastName}` : null,
+        claimed: !!member.claimedAt
+      };
+    }),
+  claimHouseholdInvite: userProcedure
+    .input(z.object({ token: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await claimHouseholdInvite(input.token, ctx.session.user.id, ctx.prisma);
+      return { status: 200 };
     })
 });
@@ -0,0 +1,117 @@
+import { WaitlistStatus } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure, rateLimit } from "~/server/api/trpc";
+import {
+  getNextWaitlistPosition,
+  isBusFullyBooked,
+  isEventFullyBooked
+} from "~/server/utils/waitlist";
+import { waitlistSchema } from "~/utils/zodSchemas";
+
+export const waitlistRouter = createTRPCRouter({
+  joinWaitlist: publicProcedure
+    .use(rateLimit({ name: "join-waitlist", limit: 10, windowMs: 60 * 60 * 1000, identifierField: "email" }))
+    .input(waitlistSchema)
+    .mutation(async ({ ctx, input }) => {
+      const event = await ctx.prisma.vastraEvent.findUnique({
+        where: {
+          id: input.eventId
+        }
+      });
+
+      if (!event || event.date < new Date()) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Event not found"
+        });
+      }
+
+      const isFull = input.busId
+        ? await isBusFullyBooked(input.eventId, input.busId, ctx.prisma)
+        : await isEventFullyBooked(input.eventId, ctx.prisma);
+
+      if (!isFull) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Det finns fortfarande lediga platser"
+        });
+      }
+
+      const existingEntry = await ctx.prisma.waitlistEntry.findFirst({
+        where: {
+          eventId: input.eventId,
+          email: input.email,
+          status: {
+            in: [WaitlistStatus.WAITING, WaitlistStatus.OFFERED]
+          }
+        }
+      });
+
+      if (existingEntry) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Du står redan i kön"
+        });
+      }
+
+      const entry = await ctx.prisma.waitlistEntry.create({
+        data: {
+          name: input.name,
+          email: input.email,
+          phone: input.phone,
+          eventId: input.eventId,
+          busId: input.busId,
+          position: await getNextWaitlistPosition(input.eventId, ctx.prisma)
+        }
+      });
+
+      const placeInLine = await ctx.prisma.waitlistEntry.count({
+        where: {
+          eventId: input.eventId,
+          status: WaitlistStatus.WAITING,
+          position: {
+            lte: entry.position
+          }
+        }
+      });
+
+      return {
+        placeInLine
+      };
+    }),
+  getOffer: publicProcedure
+    .input(z.object({ token: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const offer = await ctx.prisma.waitlistEntry.findUnique({
+        where: {
+          offerToken: input.token
+        },
+        include: {
+          bus: true
+        }
+      });
+
+      if (
+        !offer ||
+        offer.status !== WaitlistStatus.OFFERED ||
+        !offer.offerExpiresAt ||
+        offer.offerExpiresAt < new Date()
+      ) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Erbjudandet har gått ut"
+        });
+      }
+
+      return {
+        name: offer.name,
+        email: offer.email,
+        phone: offer.phone,
+        eventId: offer.eventId,
+        busId: offer.busId,
+        busName: offer.bus?.name,
+        offerExpiresAt: offer.offerExpiresAt
+      };
+    })
+});
@@ -7,7 +7,7 @@
  * need to use are documented accordingly near the end.
  */
 
-import { Role } from "@prisma/client";
+import { type PrismaClient } from "@prisma/client";
 import { initTRPC, TRPCError } from "@trpc/server";
 import { type CreateNextContextOptions } from "@trpc/server/adapters/next";
 import { type Session } from "next-auth";
@@ -17,7 +17,15 @@ import { ZodError } from "zod";
 import { env } from "~/env.mjs";
 import { getServerAuthSession } from "~/server/auth";
 import { prisma } from "~/server/db";
+import {
+  consumeRateLimit,
+  getClientIp,
+  getRateLimitStore,
+  retryAfterMessage,
+  type RateLimitRule
+} from "~/server/utils/rateLimit";
 import { featureFlags } from "~/utils/featureFlags";
+import { type Permission, hasPermission } from "~/utils/permissions";
 import { apolloClient } from "../utils/apolloClient";
 
 /**
@@ -31,12 +39,16 @@ import { apolloClient } from "../utils/apolloClient";
 type CreateContextOptions = {
   session: Session | null;
   cronKey: string | null;
+  swishSecret?: string | null;
   apolloClient: typeof apolloClient | null,
+  // Client address, used for rate limiting
+  ip?: string | null;
+  // Lets callers such as integration tests run against their own database
+  prisma?: PrismaClient;
 };
 
 /**
- * This helper generates the "internals" for a tRPC context. If you need to use it, you can export
- * it from here.
+ * This helper generates the "internals" for a tRPC context.
  *
  * Examples of things you may need it for:
  * - testing, so we don't have to mock Next.js' req/res
@@ -44,11 +56,13 @@ type CreateContextOptions = {
  *
  * @see https://create.t3.gg/en/usage/trpc#-serverapitrpcts
  */
-const createInnerTRPCContext = (opts: CreateContextOptions) => {
+export const createInnerTRPCContext = (opts: CreateContextOptions) => {
   return {
     session: opts.session,
-    prisma,
+    prisma: opts.prisma ?? prisma,
     cronKey: opts.cronKey,
+    swishSecret: opts.swishSecret ?? null,
+    ip: opts.ip ?? null,
     apolloClient,
   };
 };
@@ -65,9 +79,12 @@ export const createTRPCContext = async (opts: CreateNextContextOptions) => {
   // Get the session from the server using the getServerSession wrapper function
   const session = await getServerAuthSession({ req, res });
   const cronKey = req.query["cron-key"] ?? null;
+  const swishSecret = req.query["swish-secret"] ?? null;
   return createInnerTRPCContext({
     session,
     cronKey: cronKey as string,
+    swishSecret: swishSecret as string,
+    ip: getClientIp(req),
     apolloClient,
   });
 };
@@ -147,26 +164,42 @@ const enforceUserIsAuthed = t.middleware(({ ctx, next }) => {
   });
 });
 
-const enforceUserIsAdmin = t.middleware(({ ctx, next }) => {
-  if (
-    !ctx.session ||
-    !ctx.session.user ||
-    ctx.session.user.role !== Role.ADMIN
-  ) {
-    throw new TRPCError({ code: "UNAUTHORIZED" });
-  }
-  return next({
-    ctx: {
-      // infers the `session` as non-nullable
-      session: {
-        ...ctx.session,
-        user: ctx.session.user
+/**
+ * Passes users whose role has any of the permissions. The role is read from the database,
+ * so a changed role applies right away and not only once the session is refreshed.
+ */
+const enforcePermission = (permissions: Permission[]) =>
+  t.middleware(async ({ ctx, next }) => {
+    if (!ctx.session || !ctx.session.user) {
+      throw new TRPCError({ code: "UNAUTHORIZED" });
+    }
+    const user = await ctx.prisma.user.findUnique({
+      where: {
+        id: ctx.session.user.id
+      },
+      select: {
+        role: true
       }
+    });
+    if (!user || !permissions.some((permission) => hasPermission(user.role, permission))) {
+      throw new TRPCError({ code: "FORBIDDEN" });
     }
+    return next({
+      ctx: {
+        // infers the `session` as non-nullable
+        session: {
+          ...ctx.session,
+          user: { ...ctx.session.user, role: user.role }
+        }
+      }
+    });
   });
-});
 
-export const adminProcedure = t.procedure.use(enforceUserIsAdmin);
+/**
+ * Staff procedure, use with one or more of `PERMISSIONS`
+ */
+export const permissionProcedure = (...permissions: Permission[]) =>
+  t.procedure.use(enforcePermission(permissions));
 
 /**
  * Protected (authenticated) procedure
@@ -190,15 +223,58 @@ const cronOnly = t.middleware(({ ctx, next }) => {
 
 export const cronProcedure = t.procedure.use(cronOnly);
 
+/**
+ * Limits calls per client IP and, with `identifierField`, per value of that
+ * input field, e.g. an email. Use with `.use(rateLimit(...))` on a procedure.
+ */
+export const rateLimit = ({
+  name,
+  identifierField,
+  ...rule
+}: RateLimitRule & { name: string; identifierField?: string }) =>
+  t.middleware(async ({ ctx, rawInput, next }) => {
+    const store = getRateLimitStore(ctx.prisma);
+    const identifier = identifierField
+      ? (rawInput as Record<string, unknown> | null)?.[identifierField]
+      : undefined;
+    const keys = [
+      `${name}:ip:${ctx.ip ?? "unknown"}`,
+      ...(typeof identifier === "string" && identifier
+        ? [`${name}:id:${identifier.trim().toLowerCase()}`]
+        : [])
+    ];
+    for (const key of keys) {
+      const { allowed, retryAt } = await consumeRateLimit(key, rule, store);
+      if (!allowed) {
+        throw new TRPCError({
+          code: "TOO_MANY_REQUESTS",
+          message: retryAfterMessage(retryAt)
+        });
+      }
+    }
+    return next();
+  });
+
+/**
+ * Swish callbacks carry the per-payment secret from the callbackUrl. The procedure itself
+ * compares it with the secret stored on the payment or refund.
+ */
 const swishOnly = t.middleware(({ ctx, next }) => {
-  // Check Swish IP addresses
+  if (!ctx.swishSecret) {
+    throw new TRPCError({ code: "UNAUTHORIZED" });
+  }
   return next({
-    ctx: ctx
+    ctx: {
+      ...ctx,
+      swishSecret: ctx.swishSecret
+    }
   });
 });
 
 export const swishProcedure = t.procedure.use(swishOnly);
 
+export const swishMembershipProcedure = swishProcedure.use(membershipOnly);
+
 export const userOnly = t.middleware(({ ctx, next }) => {
   if (!ctx.session || !ctx.session.user) {
     throw new TRPCError({ code: "UNAUTHORIZED" });
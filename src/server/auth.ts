@@ -1,14 +1,37 @@
 import { PrismaAdapter } from "@next-auth/prisma-adapter";
 import { type Role } from "@prisma/client";
-import { createHash } from "crypto";
 import { type GetServerSidePropsContext } from "next";
 import {
   getServerSession,
   type DefaultSession,
   type NextAuthOptions
 } from "next-auth";
+import { type Adapter } from "next-auth/adapters";
 import CredentialsProvider from "next-auth/providers/credentials";
+import EmailProvider from "next-auth/providers/email";
+import { env } from "~/env.mjs";
 import { prisma } from "~/server/db";
+import {
+  OIDC_PROVIDER_ID,
+  claimUnverifiedAccount,
+  createOidcProvider,
+  sendMagicLink,
+  type OidcProfile
+} from "~/server/utils/authProviders";
+import {
+  activeMembershipWhere,
+  getMembershipEnd
+} from "~/server/utils/membership";
+import { hashPassword, verifyPassword } from "~/server/utils/password";
+import {
+  LOGIN_IP_RULE,
+  clearFailedLogins,
+  consumeRateLimit,
+  getClientIp,
+  getLoginLockout,
+  getRateLimitStore,
+  recordFailedLogin
+} from "~/server/utils/rateLimit";
 
 /**
  * Module augmentation for `next-auth` types. Allows us to add custom properties to the `session`
@@ -49,13 +72,42 @@ declare module "next-auth/jwt" {
     jti?: string;
     firstName?: string;
     lastName?: string;
+    isMember?: boolean;
+    // Epoch ms, when isMember has to be checked again
+    memberUntil?: number | null;
+    membershipCheckedAt?: number;
+    // Epoch ms, compared with sessionsRevokedAt on the user
+    signedInAt?: number;
+    userCheckedAt?: number;
   }
 }
 
-export const sha256 = (content: string) => {
-  return createHash("sha256").update(content).digest("hex");
+// Memberships also change outside the session, e.g. from the Cardskipper sync
+const MEMBERSHIP_CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+// How long a revoked session or changed role can take to apply
+const USER_CHECK_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+const prismaAdapter = PrismaAdapter(prisma);
+
+const adapter: Adapter = {
+  ...prismaAdapter,
+  // Providers hand over their whole profile, only keep what User has
+  createUser: async ({ email, emailVerified, image, firstName, lastName }) => {
+    const user = await prisma.user.create({
+      data: {
+        email,
+        emailVerified,
+        image,
+        firstName: firstName || undefined,
+        lastName: lastName || undefined
+      }
+    });
+    return { ...user, email, isMember: false };
+  }
 };
 
+const oidcProvider = createOidcProvider();
+
 /**
  * Options for NextAuth.js used to configure adapters, providers, callbacks, etc.
  *
@@ -67,6 +119,21 @@ export const authOptions: NextAuthOptions = {
     maxAge: 30 * 24 * 60 * 60 // 30 days
   },
   callbacks: {
+    signIn: async ({ user, account, profile, email }) => {
+      // Accounts are merged by email, so the identity provider has to vouch for it
+      if (account?.provider === OIDC_PROVIDER_ID) {
+        const { email: oidcEmail, email_verified } = (profile ?? {}) as OidcProfile;
+        if (!oidcEmail || email_verified !== true) {
+          return false;
+        }
+        await claimUnverifiedAccount(oidcEmail, prisma);
+      }
+      // Also called when the link is requested, only claim once it is clicked
+      if (account?.type === "email" && !email?.verificationRequest && user.email) {
+        await claimUnverifiedAccount(user.email, prisma);
+      }
+      return true;
+    },
     session: ({ session, token }) => {
       if (token && session.user) {
         session.user.role = token.role as Role;
@@ -77,54 +144,116 @@ export const authOptions: NextAuthOptions = {
       }
       return session;
     },
-    jwt: ({ token, user, trigger, session }) => {
+    jwt: async ({ token, user, trigger }) => {
+      const now = Date.now();
       if (user) {
         token.role = user.role;
         token.firstName = user.firstName;
         token.lastName = user.lastName;
         token.isMember = user.isMember;
+        token.signedInAt = now;
+        token.userCheckedAt = now;
+      } else if (
+        token.sub &&
+        (trigger === "update" ||
+          !token.userCheckedAt ||
+          now - token.userCheckedAt > USER_CHECK_INTERVAL)
+      ) {
+        // Roles are changed by a superadmin, the API checks them on every call anyway
+        const dbUser = await prisma.user.findUnique({
+          where: {
+            id: token.sub
+          },
+          select: {
+            role: true,
+            sessionsRevokedAt: true
+          }
+        });
+        // Throwing clears the session cookie
+        if (
+          !dbUser ||
+          (dbUser.sessionsRevokedAt &&
+            (token.signedInAt ?? 0) < dbUser.sessionsRevokedAt.getTime())
+        ) {
+          throw new Error("Session revoked");
+        }
+        token.role = dbUser.role;
+        token.userCheckedAt = now;
       }
-      if (trigger === "update" && "isMember" in session) {
-        const { isMember } = session as { isMember: boolean };
-        token.isMember = isMember;
+      const isStale =
+        !token.membershipCheckedAt ||
+        now - token.membershipCheckedAt > MEMBERSHIP_CHECK_INTERVAL ||
+        (!!token.memberUntil && token.memberUntil < now);
+      // Updates from the client only trigger a check, the database decides
+      if (token.sub && (trigger === "update" || isStale)) {
+        const membershipEnd = await getMembershipEnd(token.sub, prisma);
+        token.isMember = !!membershipEnd;
+        token.memberUntil = membershipEnd?.getTime() ?? null;
+        token.membershipCheckedAt = now;
       }
       return token;
     }
   },
-  adapter: PrismaAdapter(prisma),
+  adapter,
   providers: [
+    // Magic links, merged with an existing user with the same email
+    EmailProvider({
+      from: env.BOOKING_EMAIL,
+      maxAge: 24 * 60 * 60,
+      sendVerificationRequest: sendMagicLink
+    }),
+    ...(oidcProvider ? [oidcProvider] : []),
     CredentialsProvider({
       name: "Credentials",
       credentials: {
         username: { label: "Email", type: "text", placeholder: "email" },
         password: { label: "Password", type: "password" }
       },
-      authorize: async (credentials) => {
+      authorize: async (credentials, req) => {
         if (!credentials?.username || !credentials?.password) {
           return null;
         }
+        const store = getRateLimitStore(prisma);
+        const ipLimit = await consumeRateLimit(
+          `login:ip:${getClientIp(req)}`,
+          LOGIN_IP_RULE,
+          store
+        );
+        // The login page shows these error codes
+        if (!ipLimit.allowed) {
+          throw new Error("TooManyAttempts");
+        }
+        if (await getLoginLockout(credentials.username, store)) {
+          throw new Error("AccountLocked");
+        }
         const user = await prisma.user.findFirst({
           where: {
             email: credentials.username
           },
           include: {
             memberShips: {
-              where: {
-                endDate: {
-                  gte: new Date()
-                },
-                swishPayments: {
-                  some: {
-                    status: "PAID"
-                  }
-                }
-              }
+              where: activeMembershipWhere()
             }
           }
         });
-        if (!user) return null;
-
-        if (user.password !== sha256(credentials.password)) return null;
+        const { valid, needsRehash } = user?.password
+          ? await verifyPassword(credentials.password, user.password)
+          : { valid: false, needsRehash: false };
+        if (!user || !valid) {
+          await recordFailedLogin(credentials.username, store);
+          return null;
+        }
+        await clearFailedLogins(credentials.username, store);
+        if (needsRehash) {
+          await prisma.user.update({
+            where: {
+              id: user.id
+            },
+            data: {
+              password: await hashPassword(credentials.password)
+            }
+          });
+        }
         return {
           ...user,
           isMember: !!user.memberShips.length
@@ -133,7 +262,8 @@ export const authOptions: NextAuthOptions = {
     })
   ],
   pages: {
-    signIn: "/loggain"
+    signIn: "/loggain",
+    error: "/loggain"
   }
 };
 
@@ -0,0 +1,82 @@
+import { type PrismaClient, Role } from "@prisma/client";
+import { type SendVerificationRequestParams } from "next-auth/providers/email";
+import { type OAuthConfig } from "next-auth/providers/oauth";
+import { Resend } from "resend";
+import MagicLink from "~/components/emails/MagicLink";
+import { env } from "~/env.mjs";
+
+const resend = new Resend(env.RESEND_API_KEY);
+
+export const OIDC_PROVIDER_ID = "oidc";
+
+export interface OidcProfile {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+}
+
+export const sendMagicLink = async ({ identifier, url }: SendVerificationRequestParams) => {
+  await resend.sendEmail({
+    from: env.BOOKING_EMAIL,
+    to: env.USE_DEV_MODE === "true" ? "filip.nystrand@gmail.com" : identifier,
+    subject: "Logga in på Västra Sidan",
+    react: MagicLink({ url })
+  });
+};
+
+/**
+ * Magic links and OIDC are linked to an existing user with the same email. If
+ * that user never verified the email, whoever registered it may not own it:
+ * their password is removed and their sessions signed out, so the account
+ * belongs to the person who just proved they own the email.
+ */
+export const claimUnverifiedAccount = async (
+  email: string,
+  prisma: PrismaClient
+) => {
+  const now = new Date();
+  await prisma.user.updateMany({
+    where: {
+      email,
+      emailVerified: null
+    },
+    data: {
+      password: null,
+      emailVerified: now,
+      sessionsRevokedAt: now
+    }
+  });
+};
+
+/**
+ * An external OpenID Connect identity provider, e.g. a BankID broker. Only
+ * enabled when OIDC_ISSUER is set, locally the mock server in docker-compose.
+ */
+export const createOidcProvider = (): OAuthConfig<OidcProfile> | null => {
+  if (!env.OIDC_ISSUER || !env.OIDC_CLIENT_ID || !env.OIDC_CLIENT_SECRET) {
+    return null;
+  }
+  return {
+    id: OIDC_PROVIDER_ID,
+    name: env.OIDC_NAME,
+    type: "oauth",
+    wellKnown: `${env.OIDC_ISSUER}/.well-known/openid-configuration`,
+    authorization: { params: { scope: "openid email profile" } },
+    idToken: true,
+    checks: ["pkce", "state"],
+    clientId: env.OIDC_CLIENT_ID,
+    clientSecret: env.OIDC_CLIENT_SECRET,
+    // Existing users are matched by email, signIn only lets verified emails through
+    allowDangerousEmailAccountLinking: true,
+    profile: (profile) => ({
+      id: profile.sub,
+      email: profile.email,
+      firstName: profile.given_name ?? "Västra",
+      lastName: profile.family_name ?? "Sidan",
+      role: Role.USER,
+      isMember: false
+    })
+  };
+};
@@ -0,0 +1,57 @@
+import { type Prisma, type PrismaClient, type Role } from "@prisma/client";
+import { PERMISSIONS, hasPermission } from "~/utils/permissions";
+
+/**
+ * Ids of the buses on the event the user hosts, every bus when they are
+ * assigned the whole event.
+ */
+export const getHostedBusIds = async (
+  userId: string,
+  eventId: string,
+  prisma: PrismaClient
+) => {
+  const assignments = await prisma.busHostAssignment.findMany({
+    where: {
+      userId,
+      eventId
+    },
+    select: {
+      busId: true
+    }
+  });
+  if (assignments.some((assignment) => !assignment.busId)) {
+    const buses = await prisma.bus.findMany({
+      where: {
+        eventId
+      },
+      select: {
+        id: true
+      }
+    });
+    return buses.map((bus) => bus.id);
+  }
+  return assignments.flatMap((assignment) => assignment.busId ?? []);
+};
+
+/**
+ * The buses on the event the user may see and check in on, null meaning every
+ * bus. Staff who can see every event aren't limited to their assignments.
+ */
+export const getBusScope = async (
+  user: { id: string; role: Role },
+  eventId: string,
+  prisma: PrismaClient
+) =>
+  hasPermission(user.role, PERMISSIONS.VIEW_EVENTS)
+    ? null
+    : getHostedBusIds(user.id, eventId, prisma);
+
+export const isInBusScope = (busId: string | null, scope: string[] | null) =>
+  !scope || (!!busId && scope.includes(busId));
+
+export const hostedBusWhere = (userId: string): Prisma.BusWhereInput => ({
+  OR: [
+    { hosts: { some: { userId } } },
+    { event: { busHosts: { some: { userId, busId: null } } } }
+  ]
+});
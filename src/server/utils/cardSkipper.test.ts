@@ -0,0 +1,53 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import {
+  parseCardskipperExport,
+  parseCardskipperMember
+} from "~/server/utils/cardSkipper";
+
+// Not a recorded export, see the note in the fixture
+const exportXml = readFileSync(
+  path.resolve(__dirname, "../../test/fixtures/cardskipper-export.xml"),
+  "utf8"
+);
+
+const wrapMembers = (members: string) =>
+  `<Cardskipper><Members>${members}</Members></Cardskipper>`;
+
+describe("parseCardskipperExport", () => {
+  it("maps the members of an export", () => {
+    const [anna, bertil, withoutId] = parseCardskipperExport(exportXml).map(
+      parseCardskipperMember
+    );
+
+    expect(anna).toEqual({
+      success: true,
+      data: {
+        Id: "1001",
+        Firstname: "Anna",
+        Lastname: "Andersson",
+        ContactInfo: {
+          Email: "anna@example.com",
+          // Parsed as a number the leading zero would be lost
+          CellPhone: "0701234567"
+        }
+      }
+    });
+    expect(bertil).toMatchObject({ success: true, data: { Id: "1002" } });
+    expect(withoutId?.success).toBe(false);
+  });
+
+  it("returns a single member as a list", () => {
+    const members = parseCardskipperExport(
+      wrapMembers("<Member><Id>1001</Id></Member>")
+    );
+
+    expect(members).toEqual([{ Id: "1001" }]);
+  });
+
+  it("returns no members for an empty export", () => {
+    expect(parseCardskipperExport(wrapMembers(""))).toEqual([]);
+    expect(parseCardskipperExport("<Cardskipper></Cardskipper>")).toEqual([]);
+  });
+});
@@ -1,41 +1,384 @@
+import {
+  MembershipType,
+  type PrismaClient,
+  SwishPaymentStatus,
+  type User
+} from "@prisma/client";
 import { TRPCError } from "@trpc/server";
-import { XMLParser } from "fast-xml-parser";
+import { format } from "date-fns";
+import { XMLBuilder, XMLParser } from "fast-xml-parser";
+import { z } from "zod";
 import { env } from "~/env.mjs";
+import { normalizePhoneNumber, phoneNumberVariants } from "~/server/utils/helpers";
+import { activeMembershipWhere } from "~/server/utils/membership";
+
+// Field names as sent in Member/Import. They haven't been checked against a real
+// export, members that don't parse are reported as failed instead of imported.
+const cardskipperMemberSchema = z.object({
+  Id: z.string().min(1),
+  Firstname: z.string().optional(),
+  Lastname: z.string().optional(),
+  ContactInfo: z
+    .object({
+      Email: z.string().optional(),
+      CellPhone: z.string().optional()
+    })
+    .optional()
+});
+
+type CardskipperMember = z.infer<typeof cardskipperMemberSchema>;
 
 interface ICardSkipperResponse {
   Cardskipper: {
-    Members: {
-      Member: unknown[] // Don't care about the structure, just the length
-    }
-  }
+    Members?: {
+      Member?: unknown[];
+    };
+  };
 }
 
+type MemberImportResult = "created" | "linked" | "unchanged";
 
-export const getCardSkipperMemberCount = async () => {
+export interface CardskipperSyncReport {
+  enabled: boolean;
+  checked: number;
+  created: number;
+  linked: number;
+  unchanged: number;
+  pushed: number;
+  removed: number;
+  failed: { id: string; error: string }[];
+}
+
+const cardskipperRequest = async (path: string, body: string) => {
   const basicCredentials = Buffer.from(`${env.CARDSKIPPER_USERNAME}:${env.CARDSKIPPER_PASSWORD}`).toString("base64");
-    const res = await fetch("https://api.cardskipper.se/Member/Export", {
-      method: "POST",
-      headers: {
-        "authorization": "Basic " + basicCredentials,
-        'content-type': 'application/xml'
+  const res = await fetch(`https://api.cardskipper.se${path}`, {
+    method: "POST",
+    headers: {
+      "authorization": "Basic " + basicCredentials,
+      'content-type': 'application/xml'
+    },
+    body
+  });
+  if (!res.ok) {
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: `Cardskipper responded ${res.status} on ${path}`
+    });
+  }
+  return res.text();
+};
+
+/**
+ * The members in a Member/Export response, unvalidated
+ */
+export const parseCardskipperExport = (xml: string) => {
+  const xmlParser = new XMLParser({
+    // Keeps the leading zero of phone numbers
+    parseTagValue: false,
+    isArray: (name) => name === "Member"
+  });
+  const { Cardskipper } = xmlParser.parse(xml) as ICardSkipperResponse;
+  return Cardskipper.Members?.Member ?? [];
+};
+
+export const parseCardskipperMember = (member: unknown) =>
+  cardskipperMemberSchema.safeParse(member);
+
+/**
+ * Every active member of the organisation
+ */
+export const exportCardskipperMembers = async () => {
+  const xml = await cardskipperRequest("/Member/Export", `
+    <Cardskipper xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+      <SearchCriteriaMember>
+        <OrganisationId value="${env.CARDSKIPPER_ORG_NUMBER}"/>
+        <OnlyActive value="true"/>
+      </SearchCriteriaMember>
+    </Cardskipper>
+  `);
+  return parseCardskipperExport(xml);
+};
+
+/**
+ * Counted straight from Cardskipper, as long as the sync is off the users
+ * table doesn't know about members who paid there
+ */
+export const getCardSkipperMemberCount = async () => {
+  const members = await exportCardskipperMembers();
+  return members.length;
+};
+
+const importToCardskipper = async (
+  users: (Pick<User, "firstName" | "lastName" | "email" | "phone"> & {
+    memberShips: { startDate: Date; endDate: Date }[];
+  })[]
+) => {
+  const xmlBuilder = new XMLBuilder({ ignoreAttributes: false });
+  const body = xmlBuilder.build({
+    Cardskipper: {
+      Members: {
+        Member: users.map((user) => ({
+          Firstname: user.firstName,
+          Lastname: user.lastName,
+          ContactInfo: {
+            Email: user.email ?? "",
+            CellPhone: user.phone ?? ""
+          },
+          Organisation: {
+            OrganisationId: { "@_value": env.CARDSKIPPER_ORG_NUMBER },
+            StartDate: user.memberShips[0] ? format(user.memberShips[0].startDate, "yyyy-MM-dd") : "",
+            EndDate: user.memberShips[0] ? format(user.memberShips[0].endDate, "yyyy-MM-dd") : ""
+          }
+        }))
+      }
+    }
+  }) as string;
+  await cardskipperRequest("/Member/Import", body);
+};
+
+// Membership given to Cardskipper members, who pay outside of the site
+const getCurrentMembership = (prisma: PrismaClient) =>
+  prisma.membership.findFirst({
+    where: {
+      type: MembershipType.REGULAR,
+      startDate: {
+        lte: new Date()
       },
-      body: `
-        <Cardskipper xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
-          <SearchCriteriaMember>
-            <OrganisationId value="${env.CARDSKIPPER_ORG_NUMBER}"/>
-            <OnlyActive value="true"/>
-          </SearchCriteriaMember>
-        </Cardskipper>
-      `
-    })
-    if (!res.ok) {
-      throw new TRPCError({
-        code: 'INTERNAL_SERVER_ERROR'
+      endDate: {
+        gte: new Date()
+      }
+    }
+  });
+
+const findMatchingUser = async (
+  member: CardskipperMember,
+  email: string | null,
+  phone: string | null,
+  prisma: PrismaClient
+) => {
+  const include = {
+    memberShips: {
+      where: activeMembershipWhere()
+    }
+  };
+  const byId = await prisma.user.findUnique({ where: { cardskipperId: member.Id }, include });
+  if (byId) {
+    return byId;
+  }
+  const byEmail = email
+    ? await prisma.user.findUnique({ where: { email }, include })
+    : null;
+  if (byEmail) {
+    return byEmail;
+  }
+  return phone
+    ? prisma.user.findFirst({
+        where: {
+          cardskipperId: null,
+          phone: {
+            in: phoneNumberVariants(phone)
+          }
+        },
+        include
       })
+    : null;
+};
+
+const importMember = async (
+  member: CardskipperMember,
+  membershipId: string | undefined,
+  prisma: PrismaClient
+): Promise<MemberImportResult> => {
+  const email = member.ContactInfo?.Email?.trim().toLowerCase() || null;
+  const phone = member.ContactInfo?.CellPhone
+    ? normalizePhoneNumber(member.ContactInfo.CellPhone)
+    : null;
+
+  const user = await findMatchingUser(member, email, phone, prisma);
+
+  if (!user) {
+    if (!email && !phone) {
+      throw new Error("Member has neither email nor phone");
     }
-    const xml = await res.text();
-    const xmlParser = new XMLParser();
-    const { Cardskipper } = xmlParser.parse(xml) as ICardSkipperResponse;
-    const memberCount = Cardskipper.Members.Member.length;
-    return memberCount;
-}
\ No newline at end of file
+    await prisma.user.create({
+      data: {
+        firstName: member.Firstname ?? undefined,
+        lastName: member.Lastname ?? undefined,
+        email,
+        phone,
+        cardskipperId: member.Id,
+        memberShips: membershipId ? { connect: { id: membershipId } } : undefined
+      }
+    });
+    return "created";
+  }
+
+  const needsMembership = !!membershipId && !user.memberShips.length;
+  if (user.cardskipperId === member.Id && !needsMembership) {
+    return "unchanged";
+  }
+  await prisma.user.update({
+    where: {
+      id: user.id
+    },
+    data: {
+      cardskipperId: member.Id,
+      memberShips: needsMembership ? { connect: { id: membershipId } } : undefined
+    }
+  });
+  return "linked";
+};
+
+/**
+ * Users the sync gave the membership to who are no longer active in Cardskipper
+ * lose it again. A membership they paid for with Swish is kept.
+ * @returns how many lost the membership
+ */
+const removeLapsedMembers = async (
+  activeIds: string[],
+  membershipId: string,
+  prisma: PrismaClient
+) => {
+  const lapsed = await prisma.user.findMany({
+    where: {
+      cardskipperId: {
+        not: null,
+        notIn: activeIds
+      },
+      memberShips: {
+        some: {
+          id: membershipId
+        }
+      },
+      swishPayments: {
+        none: {
+          status: SwishPaymentStatus.PAID,
+          memberShipId: membershipId
+        }
+      }
+    },
+    select: {
+      id: true,
+      cardskipperId: true
+    }
+  });
+  for (const user of lapsed) {
+    console.info(`Cardskipper member ${user.cardskipperId ?? ""} is no longer active`);
+    await prisma.user.update({
+      where: {
+        id: user.id
+      },
+      data: {
+        memberShips: {
+          disconnect: {
+            id: membershipId
+          }
+        }
+      }
+    });
+  }
+  return lapsed.length;
+};
+
+/**
+ * Two way sync with Cardskipper, run from the cron:
+ *  - active Cardskipper members are matched to users by Cardskipper id, email
+ *    or phone, or created, and given the current membership
+ *  - users no longer in the export lose the membership the sync gave them
+ *  - members who paid with Swish are sent to Cardskipper, and are matched by
+ *    email on the next run
+ */
+export const syncCardskipperMembers = async (
+  prisma: PrismaClient
+): Promise<CardskipperSyncReport> => {
+  const report: CardskipperSyncReport = {
+    enabled: env.CARDSKIPPER_SYNC === "true",
+    checked: 0,
+    created: 0,
+    linked: 0,
+    unchanged: 0,
+    pushed: 0,
+    removed: 0,
+    failed: []
+  };
+
+  if (!report.enabled) {
+    return report;
+  }
+
+  const members = await exportCardskipperMembers();
+  const membership = await getCurrentMembership(prisma);
+  report.checked = members.length;
+  const parsedMembers = members.map(parseCardskipperMember);
+  // Nothing parsing means the mapping is wrong, don't push members back either
+  if (members.length && !parsedMembers.some((member) => member.success)) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Cardskipper members don't match the expected format"
+    });
+  }
+  for (const [index, parsed] of parsedMembers.entries()) {
+    if (!parsed.success) {
+      report.failed.push({
+        id: `#${index}`,
+        error: `Unexpected member format: ${parsed.error.issues.map((issue) => issue.path.join(".")).join(", ")}`
+      });
+      continue;
+    }
+    const member = parsed.data;
+    try {
+      const result = await importMember(member, membership?.id, prisma);
+      report[result] += 1;
+    } catch (error) {
+      console.error(`Error importing Cardskipper member ${member.Id}`);
+      console.error(error);
+      report.failed.push({
+        id: member.Id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  // Only a complete export tells who has left
+  if (membership && members.length && parsedMembers.every((member) => member.success)) {
+    report.removed = await removeLapsedMembers(
+      parsedMembers.flatMap((member) => (member.success ? [member.data.Id] : [])),
+      membership.id,
+      prisma
+    );
+  }
+
+  const unsyncedMembers = await prisma.user.findMany({
+    where: {
+      cardskipperId: null,
+      cardskipperSyncedAt: null,
+      swishPayments: {
+        some: {
+          status: SwishPaymentStatus.PAID,
+          memberShip: activeMembershipWhere()
+        }
+      }
+    },
+    include: {
+      memberShips: {
+        where: activeMembershipWhere()
+      }
+    }
+  });
+  if (unsyncedMembers.length) {
+    await importToCardskipper(unsyncedMembers);
+    await prisma.user.updateMany({
+      where: {
+        id: {
+          in: unsyncedMembers.map((user) => user.id)
+        }
+      },
+      data: {
+        cardskipperSyncedAt: new Date()
+      }
+    });
+    report.pushed = unsyncedMembers.length;
+  }
+
+  return report;
+};
@@ -0,0 +1,101 @@
+import { type PrismaClient } from "@prisma/client";
+import { type z } from "zod";
+import { type checkInSyncSchema } from "~/utils/zodSchemas";
+
+interface CheckInConflict {
+  participantId: string;
+  name: string;
+  // What the passenger ended up as
+  checkedIn: boolean;
+}
+
+/**
+ * Applies check-in toggles queued by bus hosts, possibly made while offline.
+ *
+ * When two hosts toggle the same passenger the latest toggle wins. Toggle times
+ * are moved onto the server's clock by how far the device's clock was off when
+ * sending, and never lie in the future, so a device with a wrong clock can't win
+ * or lose every conflict. Toggles that lose to a newer one from another host are
+ * returned as conflicts, so the host can be told the passenger changed under
+ * them. Passengers that are gone or outside `busScope` are skipped, null meaning
+ * every bus.
+ */
+export const syncCheckIns = async (
+  { eventId, changes, sentAt }: z.infer<typeof checkInSyncSchema>,
+  busScope: string[] | null,
+  prisma: PrismaClient
+) => {
+  const conflicts: CheckInConflict[] = [];
+  const skipped: string[] = [];
+  const receivedAt = new Date();
+  const clockOffset = receivedAt.getTime() - sentAt.getTime();
+
+  for (const { changedAt: deviceChangedAt, ...change } of changes) {
+    const changedAt = new Date(
+      Math.min(deviceChangedAt.getTime() + clockOffset, receivedAt.getTime())
+    );
+    const participant = await prisma.participant.findFirst({
+      where: {
+        id: change.participantId,
+        eventId,
+        ...(busScope ? { busId: { in: busScope } } : {})
+      }
+    });
+    if (!participant) {
+      skipped.push(change.participantId);
+      continue;
+    }
+
+    const serverUpdatedAt = participant.checkedInUpdatedAt;
+    const changedByOtherHost =
+      !!serverUpdatedAt &&
+      (!change.baseUpdatedAt || serverUpdatedAt > change.baseUpdatedAt);
+
+    if (
+      changedByOtherHost &&
+      participant.checkedIn !== change.checkedIn &&
+      serverUpdatedAt > changedAt
+    ) {
+      conflicts.push({
+        participantId: participant.id,
+        name: participant.name,
+        checkedIn: participant.checkedIn
+      });
+      continue;
+    }
+
+    // Guards against another sync landing between the read and the write
+    const { count } = await prisma.participant.updateMany({
+      where: {
+        id: participant.id,
+        checkedInUpdatedAt: serverUpdatedAt
+      },
+      data: {
+        checkedIn: change.checkedIn,
+        checkedInUpdatedAt:
+          serverUpdatedAt && serverUpdatedAt > changedAt
+            ? serverUpdatedAt
+            : changedAt
+      }
+    });
+
+    if (!count) {
+      const current = await prisma.participant.findUnique({
+        where: {
+          id: participant.id
+        }
+      });
+      conflicts.push({
+        participantId: participant.id,
+        name: participant.name,
+        checkedIn: current?.checkedIn ?? participant.checkedIn
+      });
+    }
+  }
+
+  return {
+    synced: changes.length - conflicts.length - skipped.length,
+    skipped,
+    conflicts
+  };
+};
@@ -72,9 +72,20 @@ export const awayGameMapper = (awayGame: AwayGame) => ({
   )
 });
 
+type CancellationPolicyPayload = Pick<
+  Prisma.CancellationPolicyCreateInput,
+  "fee"
+> & {
+  tiers: Prisma.CancellationTierCreateManyPolicyInput[];
+};
+
 export const awayGameToEvent = (
   awayGame: ReturnType<typeof awayGameMapper>
-): { event: VastraEvent; buses: Bus[] } => ({
+): {
+  event: VastraEvent;
+  buses: Bus[];
+  cancellationPolicy: CancellationPolicyPayload | null;
+} => ({
   event: {
     id: awayGame.id.toString(),
     name: `${awayGame.enemyTeam} - ${awayGame.date.split(" ")[0] || ""}`,
@@ -87,9 +98,25 @@ export const awayGameToEvent = (
     youthPrice: Number(awayGame.nonMemberPriceYouth),
     youthMemberPrice: Number(awayGame.memberPriceYouth)
   },
-  buses: awayGameToBuses(awayGame)
+  buses: awayGameToBuses(awayGame),
+  cancellationPolicy: awayGameToCancellationPolicy(awayGame)
 });
 
+const awayGameToCancellationPolicy = (
+  awayGame: ReturnType<typeof awayGameMapper>
+): CancellationPolicyPayload | null => {
+  if (!awayGame.cancellationTiers || !awayGame.cancellationTiers.length) {
+    return null;
+  }
+  return {
+    fee: Number(awayGame.cancellationFee) || 0,
+    tiers: awayGame.cancellationTiers.map((tier) => ({
+      hoursBeforeDeparture: Number(tier.hoursBeforeDeparture),
+      refundPercentage: Number(tier.refundPercentage)
+    }))
+  };
+};
+
 const awayGameToBuses = (
   awayGame: ReturnType<typeof awayGameMapper>
 ): Bus[] => {
@@ -149,6 +176,45 @@ export const upsertBus = async (
   }
 };
 
+export const upsertCancellationPolicy = async (
+  eventId: string,
+  policy: CancellationPolicyPayload,
+  ctx: inferAsyncReturnType<typeof createTRPCContext>
+) => {
+  const existingPolicy = await ctx.prisma.cancellationPolicy.findUnique({
+    where: {
+      eventId
+    }
+  });
+  // Changes made in the admin area win over Wordpress
+  if (existingPolicy?.editedInAdmin) {
+    return;
+  }
+  await ctx.prisma.cancellationPolicy.upsert({
+    where: {
+      eventId
+    },
+    create: {
+      eventId,
+      fee: policy.fee,
+      tiers: {
+        createMany: {
+          data: policy.tiers
+        }
+      }
+    },
+    update: {
+      fee: policy.fee,
+      tiers: {
+        deleteMany: {},
+        createMany: {
+          data: policy.tiers
+        }
+      }
+    }
+  });
+};
+
 export const wpMembershipToMembership = (
   wpMembership: WPMembership
 ): MembershipPayload[] => {
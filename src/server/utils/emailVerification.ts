@@ -0,0 +1,88 @@
+import { type PrismaClient, type User } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { Resend } from "resend";
+import UserSignup from "~/components/emails/UserSignup";
+import { env } from "~/env.mjs";
+import {
+  createVerificationToken,
+  findVerificationTokenEmail
+} from "~/server/utils/verificationTokens";
+
+const resend = new Resend(env.RESEND_API_KEY);
+
+export const VERIFICATION_TOKEN_TTL_MINUTES = 24 * 60;
+export const MAX_OPEN_VERIFICATION_TOKENS = 3;
+
+const IDENTIFIER_PREFIX = "email-verification:";
+
+export const isEmailVerificationRequired = () =>
+  env.REQUIRE_VERIFIED_EMAIL === "true";
+
+/**
+ * Throws when REQUIRE_VERIFIED_EMAIL is on and the account hasn't verified its email
+ */
+export const assertEmailVerified = (
+  user: Pick<User, "emailVerified"> | null | undefined,
+  message: string
+) => {
+  if (isEmailVerificationRequired() && user && !user.emailVerified) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message
+    });
+  }
+};
+
+export const sendVerificationEmail = async (
+  user: Pick<User, "id" | "email">,
+  prisma: PrismaClient
+) => {
+  if (!user.email) {
+    return;
+  }
+  const token = await createVerificationToken(
+    {
+      identifier: `${IDENTIFIER_PREFIX}${user.email}`,
+      ttlMinutes: VERIFICATION_TOKEN_TTL_MINUTES,
+      maxOpen: MAX_OPEN_VERIFICATION_TOKENS
+    },
+    prisma
+  );
+  if (!token) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: "Vi har redan skickat flera länkar, kolla din inkorg eller försök igen senare"
+    });
+  }
+  await resend.sendEmail({
+    from: env.BOOKING_EMAIL,
+    to: env.USE_DEV_MODE === "true" ? "filip.nystrand@gmail.com" : user.email,
+    subject: "Bekräfta din email",
+    react: UserSignup({ token })
+  });
+};
+
+export const verifyEmail = async (token: string, prisma: PrismaClient) => {
+  const email = await findVerificationTokenEmail(token, IDENTIFIER_PREFIX, prisma);
+  if (!email) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Länken är ogiltig eller har gått ut"
+    });
+  }
+  await prisma.$transaction([
+    prisma.user.update({
+      where: {
+        email
+      },
+      data: {
+        emailVerified: new Date()
+      }
+    }),
+    prisma.verificationToken.deleteMany({
+      where: {
+        identifier: `${IDENTIFIER_PREFIX}${email}`
+      }
+    })
+  ]);
+};
@@ -1,12 +1,71 @@
-import { isBefore, subDays } from "date-fns";
+import { type CancellationTier, type Prisma } from "@prisma/client";
+import { differenceInMinutes } from "date-fns";
 
-export const isEventCancelable = (eventDate: Date) => {
-  // You can't cancel within 48 hours of the departure
-  const twoDaysBeforeDeparture = subDays(eventDate, 2);
-  const today = new Date();
+export type CancellationPolicyWithTiers = Prisma.CancellationPolicyGetPayload<{
+  include: {
+    tiers: true;
+  };
+}>;
 
-  const isWithin48Hours = isBefore(today, twoDaysBeforeDeparture);
-  
-  return isWithin48Hours;
+type CancellationTerms = Pick<CancellationPolicyWithTiers, "fee"> & {
+  tiers: Pick<CancellationTier, "hoursBeforeDeparture" | "refundPercentage">[];
+};
 
-}
\ No newline at end of file
+// Applies to events without a policy of their own
+export const DEFAULT_CANCELLATION_POLICY: CancellationTerms = {
+  fee: 0,
+  tiers: [{ hoursBeforeDeparture: 48, refundPercentage: 100 }]
+};
+
+/**
+ * The most generous tier whose deadline hasn't passed yet
+ */
+export const getCancellationTier = (
+  eventDate: Date,
+  policy?: CancellationTerms | null
+) => {
+  const { tiers } = policy ?? DEFAULT_CANCELLATION_POLICY;
+  const minutesBeforeDeparture = differenceInMinutes(eventDate, new Date());
+  return tiers
+    .filter((tier) => minutesBeforeDeparture >= tier.hoursBeforeDeparture * 60)
+    .sort((a, b) => b.refundPercentage - a.refundPercentage)[0];
+};
+
+export const getRefundAmount = (
+  payAmount: number,
+  eventDate: Date,
+  policy?: CancellationTerms | null
+) => {
+  const tier = getCancellationTier(eventDate, policy);
+  if (!tier) {
+    return 0;
+  }
+  const { fee } = policy ?? DEFAULT_CANCELLATION_POLICY;
+  const refund = Math.round((payAmount * tier.refundPercentage) / 100 - fee);
+  return Math.max(refund, 0);
+};
+
+export const isEventCancelable = (
+  eventDate: Date,
+  policy?: CancellationTerms | null
+) => {
+  const tier = getCancellationTier(eventDate, policy);
+  return !!tier && tier.refundPercentage > 0;
+};
+
+/**
+ * Human readable terms, shown to travellers before they cancel
+ */
+export const describeCancellationPolicy = (policy?: CancellationTerms | null) => {
+  const { fee, tiers } = policy ?? DEFAULT_CANCELLATION_POLICY;
+  const terms = [...tiers]
+    .sort((a, b) => b.hoursBeforeDeparture - a.hoursBeforeDeparture)
+    .map(
+      (tier) =>
+        `Senast ${tier.hoursBeforeDeparture} timmar före avresa: ${tier.refundPercentage} % återbetalning`
+    );
+  if (fee > 0) {
+    terms.push(`En avgift på ${fee} kr per resenär återbetalas inte`);
+  }
+  return terms;
+};
@@ -1,6 +1,29 @@
+/**
+ * Normalizes Swedish phone numbers to the national format, e.g.
+ * "+46 70-123 45 67" and "46701234567" (as returned by Swish) become "0701234567"
+ */
+export const normalizePhoneNumber = (phoneNumber: string) => {
+  const phone = phoneNumber.replace(/[\s-]/g, '');
+  if (phone.startsWith('+46')) {
+    return '0' + phone.slice(3);
+  }
+  if (phone.startsWith('0046')) {
+    return '0' + phone.slice(4);
+  }
+  if (phone.startsWith('46') && phone.length === 11) {
+    return '0' + phone.slice(2);
+  }
+  return phone;
+};
+
 export const isSamePhoneNumber = (phoneNumber1: string, phoneNumber2: string) => {
-  // remove whitespace and +46  
-  const phone1 = phoneNumber1.replace(/\s/g, '').replace('+46', '0');
-  const phone2 = phoneNumber2.replace(/\s/g, '').replace('+46', '0');
-  return phone1 === phone2;
-};
\ No newline at end of file
+  return normalizePhoneNumber(phoneNumber1) === normalizePhoneNumber(phoneNumber2);
+};
+
+/**
+ * The formats a number is likely stored in, for looking it up in the database
+ */
+export const phoneNumberVariants = (phoneNumber: string) => {
+  const phone = normalizePhoneNumber(phoneNumber);
+  return [phone, `+46${phone.slice(1)}`];
+};
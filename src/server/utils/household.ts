@@ -0,0 +1,212 @@
+import {
+  MembershipType,
+  type Prisma,
+  type PrismaClient,
+  SwishPaymentStatus
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { Resend } from "resend";
+import HouseholdInvite from "~/components/emails/HouseholdInvite";
+import { env } from "~/env.mjs";
+import { assertEmailVerified } from "~/server/utils/emailVerification";
+import { activeMembershipWhere } from "~/server/utils/membership";
+
+const resend = new Resend(env.RESEND_API_KEY);
+
+type HouseholdMemberWithPayer = Prisma.HouseholdMemberGetPayload<{
+  include: {
+    membership: true;
+    swishPayment: {
+      include: {
+        user: true;
+      };
+    };
+  };
+}>;
+
+// How many people a membership covers besides the payer
+export const householdMemberLimits = {
+  [MembershipType.FAMILY]: 5,
+  [MembershipType.REGULAR]: 0,
+  [MembershipType.YOUTH]: 0
+} as const;
+
+export const assertHouseholdSize = (type: MembershipType, size: number) => {
+  const limit = householdMemberLimits[type];
+  if (size > limit) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: limit
+        ? `Medlemskapet gäller för högst ${limit} familjemedlemmar utöver dig`
+        : "Medlemskapet gäller bara för dig"
+    });
+  }
+};
+
+const householdMemberInclude = {
+  membership: true,
+  swishPayment: {
+    include: {
+      user: true
+    }
+  }
+} as const;
+
+export const sendHouseholdInvite = async (
+  member: HouseholdMemberWithPayer,
+  prisma: PrismaClient
+) => {
+  const payer = member.swishPayment.user;
+  await resend.sendEmail({
+    from: env.BOOKING_EMAIL,
+    to: env.USE_DEV_MODE === "true" ? "filip.nystrand@gmail.com" : member.email,
+    subject: "Du har fått ett familjemedlemskap i Västra Sidan",
+    react: HouseholdInvite({
+      member,
+      inviterName: payer ? `${payer.firstName} ${payer.lastName}` : "En medlem"
+    })
+  });
+  await prisma.householdMember.update({
+    where: {
+      id: member.id
+    },
+    data: {
+      invitedAt: new Date()
+    }
+  });
+};
+
+/**
+ * Invites the household of a family membership once it has been paid
+ */
+export const sendHouseholdInvites = async (
+  swishPaymentId: string,
+  prisma: PrismaClient
+) => {
+  const members = await prisma.householdMember.findMany({
+    where: {
+      swishPaymentId,
+      invitedAt: null
+    },
+    include: householdMemberInclude
+  });
+  for (const member of members) {
+    await sendHouseholdInvite(member, prisma);
+  }
+};
+
+/**
+ * Family memberships paid by the user, whose households they manage
+ */
+export const getManagedHouseholds = (userId: string, prisma: PrismaClient) =>
+  prisma.swishPayment.findMany({
+    where: {
+      userId,
+      status: SwishPaymentStatus.PAID,
+      memberShip: {
+        ...activeMembershipWhere(),
+        type: MembershipType.FAMILY
+      }
+    },
+    include: {
+      memberShip: true,
+      householdMembers: {
+        orderBy: {
+          createdAt: "asc"
+        }
+      }
+    }
+  });
+
+/**
+ * A household member managed by the user, for changes made by the payer
+ */
+export const getManagedHouseholdMember = async (
+  id: string,
+  userId: string,
+  prisma: PrismaClient
+) => {
+  const member = await prisma.householdMember.findUnique({
+    where: {
+      id
+    },
+    include: householdMemberInclude
+  });
+  if (!member || member.swishPayment.userId !== userId) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Familjemedlemmen finns inte"
+    });
+  }
+  return member;
+};
+
+/**
+ * Connects the user to the family membership the invite is for. Only the account
+ * with the email the invite was sent to can claim it.
+ */
+export const claimHouseholdInvite = async (
+  inviteToken: string,
+  userId: string,
+  prisma: PrismaClient
+) => {
+  const [member, user] = await Promise.all([
+    prisma.householdMember.findUnique({
+      where: {
+        inviteToken
+      }
+    }),
+    prisma.user.findUnique({
+      where: {
+        id: userId
+      },
+      select: {
+        email: true,
+        emailVerified: true
+      }
+    })
+  ]);
+  if (!member) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Inbjudan finns inte längre"
+    });
+  }
+  if (user?.email?.trim().toLowerCase() !== member.email.trim().toLowerCase()) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `Inbjudan gäller ${member.email}, logga in med den emailen`
+    });
+  }
+  assertEmailVerified(user, "Verifiera din email innan du går med i familjen, du hittar länken under Mitt konto");
+  if (member.userId && member.userId !== userId) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Inbjudan har redan använts"
+    });
+  }
+  await prisma.$transaction([
+    prisma.user.update({
+      where: {
+        id: userId
+      },
+      data: {
+        memberShips: {
+          connect: {
+            id: member.membershipId
+          }
+        }
+      }
+    }),
+    prisma.householdMember.update({
+      where: {
+        id: member.id
+      },
+      data: {
+        userId,
+        claimedAt: member.claimedAt ?? new Date()
+      }
+    })
+  ]);
+  return member;
+};
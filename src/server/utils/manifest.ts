@@ -0,0 +1,140 @@
+import { type Bus, type Participant, type VastraEvent } from "@prisma/client";
+import { format } from "date-fns";
+import { createPdfDocument, PAGE_HEIGHT, truncateText } from "~/server/utils/pdf";
+
+type ManifestPassenger = Pick<
+  Participant,
+  | "name"
+  | "phone"
+  | "member"
+  | "memberVerified"
+  | "youth"
+  | "note"
+  | "payAmount"
+  | "checkedIn"
+>;
+
+export type ManifestEvent = Pick<VastraEvent, "name" | "date"> & {
+  buses: (Pick<Bus, "name"> & { passengers: ManifestPassenger[] })[];
+};
+
+const yesNo = (value: boolean) => (value ? "Ja" : "Nej");
+
+// Bookings from before member verification only say "Ja"
+const memberLabel = (passenger: ManifestPassenger) =>
+  passenger.memberVerified ? "Verifierad" : yesNo(passenger.member);
+
+const sortedPassengers = (passengers: ManifestPassenger[]) =>
+  [...passengers].sort((a, b) => a.name.localeCompare(b.name, "sv"));
+
+export const manifestFileName = (event: ManifestEvent, extension: string) => {
+  const busName = event.buses.length === 1 ? `-${event.buses[0]?.name ?? ""}` : "";
+  const name = `${event.name}${busName}`
+    .toLowerCase()
+    .replace(/[^a-z0-9åäö]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${name}.${extension}`;
+};
+
+// Excel and Sheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: string) => {
+  if (FORMULA_PREFIX.test(value)) {
+    return `"'${value.replace(/"/g, '""')}"`;
+  }
+  return /[";\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Semicolon separated with a BOM, which is what Excel expects with Swedish settings
+ */
+export const createManifestCsv = (event: ManifestEvent) => {
+  const header = ["Buss", "Namn", "Telefon", "Medlem", "Ungdom", "Notering", "Betalt", "Incheckad"];
+  const rows = event.buses.flatMap((bus) =>
+    sortedPassengers(bus.passengers).map((passenger) => [
+      bus.name,
+      passenger.name,
+      passenger.phone,
+      memberLabel(passenger),
+      yesNo(passenger.youth),
+      passenger.note ?? "",
+      String(passenger.payAmount ?? 0),
+      passenger.checkedIn ? "X" : ""
+    ])
+  );
+  const csv = [header, ...rows]
+    .map((row) => row.map(csvCell).join(";"))
+    .join("\r\n");
+  return `\uFEFF${csv}`;
+};
+
+const MARGIN = 40;
+const ROW_HEIGHT = 20;
+
+const columns = [
+  { title: "", x: MARGIN, width: 20 },
+  { title: "Namn", x: MARGIN + 20, width: 130 },
+  { title: "Telefon", x: MARGIN + 150, width: 85 },
+  { title: "Medlem", x: MARGIN + 235, width: 55 },
+  { title: "Ungdom", x: MARGIN + 290, width: 45 },
+  { title: "Betalt", x: MARGIN + 335, width: 50 },
+  { title: "Notering", x: MARGIN + 385, width: 130 }
+];
+
+/**
+ * One page per bus, with an empty box in front of each passenger to tick at check-in
+ */
+export const createManifestPdf = (event: ManifestEvent) => {
+  const pdf = createPdfDocument();
+  const eventTitle = `${event.name} ${format(event.date, "yyyy-MM-dd HH:mm")}`;
+
+  const addBusPage = (busName: string, passengerCount: number) => {
+    pdf.addPage();
+    pdf.text(eventTitle, MARGIN, MARGIN + 14, { size: 16, bold: true });
+    pdf.text(`${busName} - ${passengerCount} resenärer`, MARGIN, MARGIN + 34, { size: 12 });
+    columns.forEach((column) =>
+      pdf.text(column.title, column.x + 2, MARGIN + 64, { bold: true })
+    );
+    pdf.line(MARGIN, MARGIN + 70, MARGIN + 515, MARGIN + 70);
+    return MARGIN + 70;
+  };
+
+  event.buses.forEach((bus) => {
+    const passengers = sortedPassengers(bus.passengers);
+    let y = addBusPage(bus.name, passengers.length);
+    passengers.forEach((passenger) => {
+      if (y + ROW_HEIGHT > PAGE_HEIGHT - MARGIN) {
+        y = addBusPage(`${bus.name} (forts.)`, passengers.length);
+      }
+      const [checkbox, ...cells] = columns;
+      pdf.rect((checkbox?.x ?? MARGIN) + 3, y + 5, 10, 10);
+      if (passenger.checkedIn) {
+        pdf.text("X", (checkbox?.x ?? MARGIN) + 5, y + 14);
+      }
+      const values = [
+        passenger.name,
+        passenger.phone,
+        memberLabel(passenger),
+        yesNo(passenger.youth),
+        `${passenger.payAmount ?? 0} kr`,
+        passenger.note ?? ""
+      ];
+      cells.forEach((column, index) =>
+        pdf.text(
+          truncateText(values[index] ?? "", column.width - 4, 10),
+          column.x + 2,
+          y + 14
+        )
+      );
+      y += ROW_HEIGHT;
+      pdf.line(MARGIN, y, MARGIN + 515, y);
+    });
+  });
+
+  if (!event.buses.length) {
+    addBusPage("Inga bussar", 0);
+  }
+
+  return pdf.toBuffer();
+};
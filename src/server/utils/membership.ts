@@ -1,7 +1,126 @@
-import { MembershipType } from "@prisma/client";
+import {
+  MembershipType,
+  type Prisma,
+  type PrismaClient,
+  SwishPaymentStatus
+} from "@prisma/client";
+import { normalizePhoneNumber, phoneNumberVariants } from "~/server/utils/helpers";
 
 export const friendlyMembershipNames = {
   [MembershipType.FAMILY]: "Familjemedlemskap",
   [MembershipType.REGULAR]: "Ordinarie medlemskap",
   [MembershipType.YOUTH]: "Ungdomsmedlemskap"
-} as const;
\ No newline at end of file
+} as const;
+
+/**
+ * Users are only connected to a membership once it is paid, either with Swish
+ * or in Cardskipper, so any connected membership that hasn't ended counts.
+ */
+export const activeMembershipWhere = (): Prisma.MembershipWhereInput => ({
+  endDate: {
+    gte: new Date()
+  }
+});
+
+/**
+ * When the user's last active membership ends, null if they aren't a member
+ */
+export const getMembershipEnd = async (userId: string, prisma: PrismaClient) => {
+  const membership = await prisma.membership.findFirst({
+    where: {
+      ...activeMembershipWhere(),
+      users: {
+        some: {
+          id: userId
+        }
+      }
+    },
+    orderBy: {
+      endDate: "desc"
+    },
+    select: {
+      endDate: true
+    }
+  });
+  return membership?.endDate ?? null;
+};
+
+export const getMemberCount = (prisma: PrismaClient) =>
+  prisma.user.count({
+    where: {
+      memberShips: {
+        some: activeMembershipWhere()
+      }
+    }
+  });
+
+/**
+ * The membership types that give a traveller's price tier. The youth member
+ * price needs a youth membership, or a family membership since it covers the
+ * children in the household, while any membership gives the member price.
+ */
+export const membershipTypesForPrice = (youth: boolean) =>
+  youth
+    ? [MembershipType.YOUTH, MembershipType.FAMILY]
+    : Object.values(MembershipType);
+
+/**
+ * Whether a traveller has an active membership of one of the types, looked up on
+ * the email or phone given in the booking. Cardskipper members are found once the
+ * cron has synced them, household members of a family membership before they have
+ * claimed an account.
+ */
+export const hasActiveMembership = async (
+  { email, phone }: { email: string; phone: string },
+  types: MembershipType[],
+  prisma: PrismaClient
+) => {
+  const membershipWhere = {
+    ...activeMembershipWhere(),
+    type: {
+      in: types
+    }
+  };
+  const householdCount = await prisma.householdMember.count({
+    where: {
+      email: email.trim(),
+      membership: membershipWhere,
+      swishPayment: {
+        status: SwishPaymentStatus.PAID
+      }
+    }
+  });
+  if (householdCount > 0) {
+    return true;
+  }
+  const count = await prisma.user.count({
+    where: {
+      OR: [
+        { email: email.trim() },
+        { phone: { in: phoneNumberVariants(phone) } }
+      ],
+      memberShips: {
+        some: membershipWhere
+      }
+    }
+  });
+  return count > 0;
+};
+
+/**
+ * Travellers in a booking claiming a member price with the same email or phone
+ * as another one, a membership only covers one traveller.
+ */
+export const getDuplicateMemberClaims = <T extends { email: string; phone: string; member: boolean }>(
+  participants: T[]
+) => {
+  const members = participants.filter((participant) => participant.member);
+  return members.filter((participant, index) =>
+    members.some(
+      (other, otherIndex) =>
+        otherIndex !== index &&
+        (other.email.trim().toLowerCase() === participant.email.trim().toLowerCase() ||
+          normalizePhoneNumber(other.phone) === normalizePhoneNumber(participant.phone))
+    )
+  );
+};
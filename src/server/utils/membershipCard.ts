@@ -0,0 +1,194 @@
+import { type PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { format } from "date-fns";
+import forge from "node-forge";
+import { env } from "~/env.mjs";
+import {
+  activeMembershipWhere,
+  friendlyMembershipNames
+} from "~/server/utils/membership";
+import { createZip, type ZipEntry } from "~/server/utils/zip";
+
+/**
+ * A membership card is the user and membership id signed with TICKET_SECRET.
+ * The QR on the card links to the verification endpoint, which looks up
+ * whether the membership is still valid.
+ */
+
+// Keeps card signatures apart from ticket signatures made with the same secret
+const sign = (payload: string) =>
+  createHmac("sha256", env.TICKET_SECRET)
+    .update(`membership.${payload}`)
+    .digest("base64url");
+
+export const createMembershipCardToken = (userId: string, membershipId: string) => {
+  const payload = `${userId}.${membershipId}`;
+  return `${payload}.${sign(payload)}`;
+};
+
+export const verifyMembershipCardToken = (token: string) => {
+  const [userId, membershipId, signature] = token.trim().split(".");
+  if (!userId || !membershipId || !signature) {
+    return null;
+  }
+  const expected = Buffer.from(sign(`${userId}.${membershipId}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return { userId, membershipId };
+};
+
+// What the QR code on the card and in the wallet pass contains
+export const createMembershipCardUrl = (token: string) =>
+  `${env.API_URL}/membership-cards/${token}`;
+
+/**
+ * Looks up the card holder, throws if the card isn't one of ours
+ */
+export const getMembershipCard = async (token: string, prisma: PrismaClient) => {
+  const card = verifyMembershipCardToken(token);
+  const user = card
+    ? await prisma.user.findFirst({
+        where: {
+          id: card.userId,
+          memberShips: {
+            some: {
+              id: card.membershipId
+            }
+          }
+        },
+        include: {
+          memberShips: {
+            where: {
+              id: card.membershipId
+            }
+          }
+        }
+      })
+    : null;
+  const membership = user?.memberShips[0];
+  if (!user || !membership) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Ogiltigt medlemskort"
+    });
+  }
+  // A renewal bought ahead of the season isn't valid until it starts
+  const isActive = await prisma.membership.count({
+    where: {
+      ...activeMembershipWhere(),
+      startDate: {
+        lte: new Date()
+      },
+      id: membership.id
+    }
+  });
+  return {
+    valid: isActive > 0,
+    name: `${user.firstName} ${user.lastName}`,
+    membershipName: membership.name,
+    membershipType: friendlyMembershipNames[membership.type],
+    imageUrl: membership.imageUrl,
+    startDate: membership.startDate,
+    endDate: membership.endDate
+  };
+};
+
+type MembershipCard = Awaited<ReturnType<typeof getMembershipCard>>;
+
+const baseUrl = process.env.VERCEL_URL
+  ? `https://${process.env.VERCEL_URL}`
+  : "http://localhost:3000";
+
+const sha1 = (data: Buffer) => createHash("sha1").update(data).digest("hex");
+
+/**
+ * Apple Wallet only opens passes signed with a Pass Type ID certificate. Without
+ * one configured the pass is left unsigned, which Android wallet apps still open.
+ */
+const signManifest = (manifest: Buffer) => {
+  if (!env.WALLET_PASS_CERT || !env.WALLET_PASS_KEY || !env.WALLET_WWDR_CERT) {
+    return null;
+  }
+  const p7 = forge.pkcs7.createSignedData();
+  p7.content = forge.util.createBuffer(manifest.toString("binary"));
+  const certificate = forge.pki.certificateFromPem(env.WALLET_PASS_CERT);
+  p7.addCertificate(certificate);
+  p7.addCertificate(forge.pki.certificateFromPem(env.WALLET_WWDR_CERT));
+  p7.addSigner({
+    key: forge.pki.privateKeyFromPem(env.WALLET_PASS_KEY),
+    certificate,
+    digestAlgorithm: forge.pki.oids.sha256 as string,
+    authenticatedAttributes: [
+      { type: forge.pki.oids.contentType as string, value: forge.pki.oids.data },
+      { type: forge.pki.oids.messageDigest as string },
+      { type: forge.pki.oids.signingTime as string, value: new Date().toISOString() }
+    ]
+  });
+  p7.sign({ detached: true });
+  return Buffer.from(forge.asn1.toDer(p7.toAsn1()).getBytes(), "binary");
+};
+
+/**
+ * The card as a .pkpass file, a zip with pass.json, its images, a manifest of
+ * their hashes and, when configured, a signature of the manifest.
+ */
+export const createMembershipPass = async (token: string, card: MembershipCard) => {
+  const pass = {
+    formatVersion: 1,
+    passTypeIdentifier: env.WALLET_PASS_TYPE_ID ?? "pass.se.vastrasidan.membership",
+    teamIdentifier: env.WALLET_TEAM_ID ?? "VASTRASIDAN",
+    serialNumber: token.split(".").slice(0, 2).join("."),
+    organizationName: "Västra Sidan",
+    description: `${card.membershipName}, ${card.membershipType}`,
+    logoText: "Västra Sidan",
+    foregroundColor: "rgb(255, 255, 255)",
+    backgroundColor: "rgb(15, 23, 42)",
+    labelColor: "rgb(148, 163, 184)",
+    expirationDate: card.endDate.toISOString(),
+    barcodes: [
+      {
+        format: "PKBarcodeFormatQR",
+        message: createMembershipCardUrl(token),
+        messageEncoding: "iso-8859-1"
+      }
+    ],
+    generic: {
+      primaryFields: [{ key: "name", label: "Medlem", value: card.name }],
+      secondaryFields: [
+        { key: "membership", label: "Medlemskap", value: card.membershipName },
+        { key: "type", label: "Typ", value: card.membershipType }
+      ],
+      auxiliaryFields: [
+        { key: "start", label: "Giltigt från", value: format(card.startDate, "yyyy-MM-dd") },
+        { key: "end", label: "Giltigt till", value: format(card.endDate, "yyyy-MM-dd") }
+      ]
+    }
+  };
+
+  const logo = await fetch(`${baseUrl}/static/logo.png`);
+  if (!logo.ok) {
+    throw new Error(`Could not fetch logo: ${logo.status}`);
+  }
+  const logoData = Buffer.from(await logo.arrayBuffer());
+  const files: ZipEntry[] = [
+    { name: "pass.json", data: Buffer.from(JSON.stringify(pass), "utf8") },
+    { name: "icon.png", data: logoData },
+    { name: "logo.png", data: logoData }
+  ];
+  const manifest = Buffer.from(
+    JSON.stringify(
+      Object.fromEntries(files.map((file) => [file.name, sha1(file.data)]))
+    ),
+    "utf8"
+  );
+  const signature = signManifest(manifest);
+
+  return createZip([
+    ...files,
+    { name: "manifest.json", data: manifest },
+    ...(signature ? [{ name: "signature", data: signature }] : [])
+  ]);
+};
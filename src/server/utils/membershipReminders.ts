@@ -0,0 +1,142 @@
+import {
+  MembershipReminderKind,
+  Prisma,
+  type Membership,
+  type PrismaClient
+} from "@prisma/client";
+import { addDays, subDays } from "date-fns";
+import { Resend } from "resend";
+import MembershipRenewal from "~/components/emails/MembershipRenewal";
+import { env } from "~/env.mjs";
+
+const resend = new Resend(env.RESEND_API_KEY);
+
+export const REMIND_DAYS_BEFORE_EXPIRY = 30;
+export const REMIND_DAYS_AFTER_EXPIRY = 14;
+
+export interface MembershipReminderReport {
+  sent: number;
+  // Memberships without a synced next season to renew to
+  noNextSeason: number;
+  failed: string[];
+}
+
+/**
+ * The season after `membership`, as synced from Wordpress by the membership cron
+ */
+const getNextSeason = (membership: Membership, prisma: PrismaClient) =>
+  prisma.membership.findFirst({
+    where: {
+      type: membership.type,
+      startDate: {
+        gt: membership.startDate
+      },
+      endDate: {
+        gt: new Date()
+      }
+    },
+    orderBy: {
+      startDate: "asc"
+    }
+  });
+
+/**
+ * Records the reminder before sending it, false if it has already been sent
+ */
+const claimReminder = async (
+  data: { userId: string; membershipId: string; kind: MembershipReminderKind },
+  prisma: PrismaClient
+) => {
+  try {
+    return await prisma.membershipReminder.create({ data });
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Emails members whose membership ends within REMIND_DAYS_BEFORE_EXPIRY, and again
+ * after it has ended, with a link to renew for the next season. Members who have
+ * already renewed are left alone.
+ */
+export const sendMembershipReminders = async (
+  prisma: PrismaClient
+): Promise<MembershipReminderReport> => {
+  const now = new Date();
+  const report: MembershipReminderReport = { sent: 0, noNextSeason: 0, failed: [] };
+
+  const endingMemberships = await prisma.membership.findMany({
+    where: {
+      endDate: {
+        gte: subDays(now, REMIND_DAYS_AFTER_EXPIRY),
+        lte: addDays(now, REMIND_DAYS_BEFORE_EXPIRY)
+      }
+    },
+    include: {
+      users: {
+        include: {
+          memberShips: {
+            select: {
+              endDate: true
+            }
+          }
+        }
+      }
+    }
+  });
+
+  for (const membership of endingMemberships) {
+    const nextSeason = await getNextSeason(membership, prisma);
+    if (!nextSeason) {
+      report.noNextSeason++;
+      continue;
+    }
+    const kind =
+      membership.endDate > now
+        ? MembershipReminderKind.BEFORE_EXPIRY
+        : MembershipReminderKind.AFTER_EXPIRY;
+
+    for (const user of membership.users) {
+      const hasRenewed = user.memberShips.some(
+        (x) => x.endDate > membership.endDate
+      );
+      if (!user.email || hasRenewed) {
+        continue;
+      }
+      const reminder = await claimReminder(
+        { userId: user.id, membershipId: membership.id, kind },
+        prisma
+      );
+      if (!reminder) {
+        continue;
+      }
+      try {
+        await resend.sendEmail({
+          from: env.BOOKING_EMAIL,
+          to: env.USE_DEV_MODE === "true" ? "filip.nystrand@gmail.com" : user.email,
+          subject: "Förnya ditt medlemskap i Västra Sidan",
+          react: MembershipRenewal({
+            firstName: user.firstName,
+            membership,
+            nextSeason
+          })
+        });
+        report.sent++;
+      } catch (error) {
+        console.error(`Error sending membership reminder to ${user.id}`);
+        console.error(error);
+        // Let the next run try again
+        await prisma.membershipReminder.delete({ where: { id: reminder.id } });
+        report.failed.push(user.id);
+      }
+    }
+  }
+
+  return report;
+};
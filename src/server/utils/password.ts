@@ -0,0 +1,60 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+/**
+ * Passwords are stored as `scrypt$N$r$p$salt$hash`. Accounts created before
+ * that have an unsalted sha256 hex digest, which is replaced with a scrypt
+ * hash the next time the user logs in.
+ */
+
+const SCRYPT_PREFIX = "scrypt";
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+
+const deriveKey = (
+  password: string,
+  salt: Buffer,
+  { N, r, p }: typeof SCRYPT_PARAMS
+) =>
+  new Promise<Buffer>((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, { N, r, p }, (err, key) =>
+      err ? reject(err) : resolve(key)
+    );
+  });
+
+const legacySha256 = (content: string) =>
+  createHash("sha256").update(content).digest("hex");
+
+const isEqual = (a: Buffer, b: Buffer) =>
+  a.length === b.length && timingSafeEqual(a, b);
+
+export const hashPassword = async (password: string) => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return [SCRYPT_PREFIX, N, r, p, salt.toString("base64"), key.toString("base64")].join("$");
+};
+
+/**
+ * needsRehash is set when the stored hash is a legacy sha256 digest or was made
+ * with weaker parameters than the current ones
+ */
+export const verifyPassword = async (password: string, storedHash: string) => {
+  if (!storedHash.startsWith(`${SCRYPT_PREFIX}$`)) {
+    const valid = isEqual(
+      Buffer.from(legacySha256(password)),
+      Buffer.from(storedHash)
+    );
+    return { valid, needsRehash: valid };
+  }
+  const [, N, r, p, salt, hash] = storedHash.split("$");
+  if (!N || !r || !p || !salt || !hash) {
+    return { valid: false, needsRehash: false };
+  }
+  const params = { N: Number(N), r: Number(r), p: Number(p) };
+  const key = await deriveKey(password, Buffer.from(salt, "base64"), params);
+  const valid = isEqual(key, Buffer.from(hash, "base64"));
+  return {
+    valid,
+    needsRehash: valid && params.N < SCRYPT_PARAMS.N
+  };
+};
@@ -0,0 +1,90 @@
+import { type PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { Resend } from "resend";
+import PasswordReset from "~/components/emails/PasswordReset";
+import { env } from "~/env.mjs";
+import { hashPassword } from "~/server/utils/password";
+import { clearFailedLogins, getRateLimitStore } from "~/server/utils/rateLimit";
+import {
+  createVerificationToken,
+  findVerificationTokenEmail
+} from "~/server/utils/verificationTokens";
+
+const resend = new Resend(env.RESEND_API_KEY);
+
+export const RESET_TOKEN_TTL_MINUTES = 60;
+// Unused links per account at a time, further requests are ignored until they expire
+export const MAX_OPEN_RESET_TOKENS = 3;
+
+const IDENTIFIER_PREFIX = "password-reset:";
+
+/**
+ * Emails a reset link if there is an account with this email. Answers the same
+ * either way so the form can't be used to find out who has an account.
+ */
+export const requestPasswordReset = async (email: string, prisma: PrismaClient) => {
+  const user = await prisma.user.findUnique({
+    where: {
+      email
+    }
+  });
+  if (!user?.email) {
+    return;
+  }
+
+  const token = await createVerificationToken(
+    {
+      identifier: `${IDENTIFIER_PREFIX}${user.email}`,
+      ttlMinutes: RESET_TOKEN_TTL_MINUTES,
+      maxOpen: MAX_OPEN_RESET_TOKENS
+    },
+    prisma
+  );
+  if (!token) {
+    console.warn(`Too many password resets requested for ${user.id}`);
+    return;
+  }
+  await resend.sendEmail({
+    from: env.BOOKING_EMAIL,
+    to: env.USE_DEV_MODE === "true" ? "filip.nystrand@gmail.com" : user.email,
+    subject: "Återställ ditt lösenord",
+    react: PasswordReset({ token, expiresInMinutes: RESET_TOKEN_TTL_MINUTES })
+  });
+};
+
+/**
+ * Sets a new password and invalidates every reset link sent to the account.
+ * Signs out every session and lifts a login lockout, the owner has proven
+ * access to the email.
+ */
+export const resetPassword = async (
+  token: string,
+  password: string,
+  prisma: PrismaClient
+) => {
+  const email = await findVerificationTokenEmail(token, IDENTIFIER_PREFIX, prisma);
+  if (!email) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Länken är ogiltig eller har gått ut"
+    });
+  }
+  const hashedPassword = await hashPassword(password);
+  await prisma.$transaction([
+    prisma.user.update({
+      where: {
+        email
+      },
+      data: {
+        password: hashedPassword,
+        sessionsRevokedAt: new Date()
+      }
+    }),
+    prisma.verificationToken.deleteMany({
+      where: {
+        identifier: `${IDENTIFIER_PREFIX}${email}`
+      }
+    })
+  ]);
+  await clearFailedLogins(email, getRateLimitStore(prisma));
+};
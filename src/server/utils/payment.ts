@@ -1,17 +1,22 @@
 import {
   type PrismaClient,
-  SwishPaymentStatus,
-  SwishRefundStatus
+  type SwishPayment,
+  type SwishRefund
 } from "@prisma/client";
+import { type z } from "zod";
+import { isSamePhoneNumber } from "~/server/utils/helpers";
+import {
+  type swishCallbackPaymentSchema,
+  type swishCallbackRefundSchema
+} from "~/utils/zodSchemas";
 
 export const checkPaymentStatus = async (
   paymentId: string,
   prisma: PrismaClient
 ) => {
-  const payment = await prisma.swishPayment.findFirst({
+  const payment = await prisma.swishPayment.findUnique({
     where: {
-      paymentId,
-      status: SwishPaymentStatus.PAID
+      paymentId
     }
   });
   if (!payment) {
@@ -28,10 +33,9 @@ export const checkRefundStatus = async (
   refundId: string,
   prisma: PrismaClient
 ) => {
-  const refund = await prisma.swishRefund.findFirst({
+  const refund = await prisma.swishRefund.findUnique({
     where: {
-      refundId,
-      status: SwishRefundStatus.PAID
+      refundId
     }
   });
   if (!refund) {
@@ -43,3 +47,29 @@ export const checkRefundStatus = async (
     status: refund.status
   };
 };
+
+/**
+ * A callback must report the same amount and parties as the request we sent to Swish.
+ * M-commerce requests have no payer until someone pays, so any payer matches.
+ */
+export const isMatchingPaymentCallback = (
+  payment: SwishPayment,
+  callback: z.infer<typeof swishCallbackPaymentSchema>
+) => {
+  return (
+    payment.amount === callback.amount &&
+    payment.payeeAlias === callback.payeeAlias &&
+    (!payment.payerAlias ||
+      isSamePhoneNumber(payment.payerAlias, callback.payerAlias ?? ""))
+  );
+};
+
+export const isMatchingRefundCallback = (
+  refund: SwishRefund,
+  callback: z.infer<typeof swishCallbackRefundSchema>
+) => {
+  return (
+    refund.amount === callback.amount &&
+    refund.payerAlias === callback.payerAlias
+  );
+};
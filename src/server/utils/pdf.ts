@@ -0,0 +1,109 @@
+/**
+ * Minimal PDF writer for printable lists, e.g. bus manifests. Supports text in
+ * Helvetica and stroked lines and boxes, which is all a list needs.
+ *
+ * Coordinates are in points from the top left corner of an A4 page.
+ */
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+}
+
+// The standard fonts are WinAnsi encoded, which covers å, ä and ö
+const toLatin1 = (text: string) =>
+  text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+    .replace(/[\\()]/g, (char) => `\\${char}`);
+
+/**
+ * Rough width of Helvetica text, good enough to keep text inside a column
+ */
+export const estimateTextWidth = (text: string, size: number) =>
+  text.length * size * 0.52;
+
+export const truncateText = (text: string, maxWidth: number, size: number) => {
+  if (estimateTextWidth(text, size) <= maxWidth) {
+    return text;
+  }
+  const maxLength = Math.floor(maxWidth / (size * 0.52)) - 1;
+  return `${text.slice(0, Math.max(maxLength - 2, 0))}...`;
+};
+
+export const createPdfDocument = () => {
+  const pages: string[][] = [];
+
+  const currentPage = () => {
+    const page = pages[pages.length - 1];
+    if (!page) {
+      throw new Error("Add a page before drawing");
+    }
+    return page;
+  };
+
+  const addPage = () => {
+    pages.push([]);
+  };
+
+  const text = (value: string, x: number, y: number, options: TextOptions = {}) => {
+    const size = options.size ?? 10;
+    const font = options.bold ? "F2" : "F1";
+    currentPage().push(
+      `BT /${font} ${size} Tf ${x} ${PAGE_HEIGHT - y} Td (${toLatin1(value)}) Tj ET`
+    );
+  };
+
+  const line = (x1: number, y1: number, x2: number, y2: number) => {
+    currentPage().push(
+      `${x1} ${PAGE_HEIGHT - y1} m ${x2} ${PAGE_HEIGHT - y2} l S`
+    );
+  };
+
+  const rect = (x: number, y: number, width: number, height: number) => {
+    currentPage().push(
+      `${x} ${PAGE_HEIGHT - y - height} ${width} ${height} re S`
+    );
+  };
+
+  const toBuffer = () => {
+    const objects: string[] = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "", // Page tree, written once the page objects are numbered
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+    ];
+    const pageRefs = pages.map((content) => {
+      const stream = content.join("\n");
+      objects.push(
+        `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`
+      );
+      const contentRef = objects.length;
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentRef} 0 R >>`
+      );
+      return `${objects.length} 0 R`;
+    });
+    objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(" ")}] /Count ${pageRefs.length} >>`;
+
+    let output = "%PDF-1.4\n";
+    const offsets = objects.map((object, index) => {
+      const offset = Buffer.byteLength(output, "latin1");
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+    const xrefOffset = Buffer.byteLength(output, "latin1");
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets
+      .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+      .join("");
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\n`;
+    output += `startxref\n${xrefOffset}\n%%EOF\n`;
+    return Buffer.from(output, "latin1");
+  };
+
+  return { addPage, text, line, rect, toBuffer };
+};
@@ -0,0 +1,188 @@
+import { type PrismaClient } from "@prisma/client";
+import { addMilliseconds } from "date-fns";
+import { type IncomingMessage } from "http";
+import { env } from "~/env.mjs";
+
+/**
+ * Fixed window counters per bucket key, e.g. "signup:ip:1.2.3.4". The store is
+ * picked with RATE_LIMIT_STORE: the database is shared by every serverless
+ * instance, memory is per instance and meant for development.
+ */
+
+export interface RateLimitEntry {
+  key: string;
+  count: number;
+  resetAt: Date;
+  blockedUntil: Date | null;
+}
+
+export interface RateLimitStore {
+  get: (key: string) => Promise<RateLimitEntry | null>;
+  // Counts a hit, starting a new window if the last one has ended
+  increment: (key: string, windowMs: number) => Promise<RateLimitEntry>;
+  block: (key: string, until: Date) => Promise<void>;
+  reset: (key: string) => Promise<void>;
+  listBlocked: () => Promise<RateLimitEntry[]>;
+}
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export const createMemoryStore = (): RateLimitStore => {
+  const entries = new Map<string, RateLimitEntry>();
+  return {
+    get: (key) => Promise.resolve(entries.get(key) ?? null),
+    increment: (key, windowMs) => {
+      const now = new Date();
+      const entry = entries.get(key);
+      const next =
+        entry && entry.resetAt > now
+          ? { ...entry, count: entry.count + 1 }
+          : {
+              key,
+              count: 1,
+              resetAt: addMilliseconds(now, windowMs),
+              blockedUntil: entry?.blockedUntil ?? null
+            };
+      entries.set(key, next);
+      return Promise.resolve(next);
+    },
+    block: (key, until) => {
+      const entry = entries.get(key);
+      entries.set(key, {
+        key,
+        count: entry?.count ?? 0,
+        resetAt: entry?.resetAt ?? until,
+        blockedUntil: until
+      });
+      return Promise.resolve();
+    },
+    reset: (key) => {
+      entries.delete(key);
+      return Promise.resolve();
+    },
+    listBlocked: () => {
+      const now = new Date();
+      return Promise.resolve(
+        [...entries.values()].filter((x) => x.blockedUntil && x.blockedUntil > now)
+      );
+    }
+  };
+};
+
+export const createDatabaseStore = (prisma: PrismaClient): RateLimitStore => ({
+  get: (key) => prisma.rateLimit.findUnique({ where: { key } }),
+  // One statement, so concurrent hits can't read the same count. The count is
+  // assigned first since MySQL lets later assignments see earlier ones.
+  increment: async (key, windowMs) => {
+    const now = new Date();
+    const resetAt = addMilliseconds(now, windowMs);
+    await prisma.$executeRaw`
+      INSERT INTO RateLimit (\`key\`, count, resetAt, updatedAt)
+      VALUES (${key}, 1, ${resetAt}, ${now})
+      ON DUPLICATE KEY UPDATE
+        count = IF(resetAt > ${now}, count + 1, 1),
+        resetAt = IF(resetAt > ${now}, resetAt, ${resetAt}),
+        updatedAt = ${now}`;
+    return prisma.rateLimit.findUniqueOrThrow({ where: { key } });
+  },
+  block: async (key, until) => {
+    await prisma.rateLimit.upsert({
+      where: { key },
+      create: { key, count: 0, resetAt: until, blockedUntil: until },
+      update: { blockedUntil: until }
+    });
+  },
+  reset: async (key) => {
+    await prisma.rateLimit.deleteMany({ where: { key } });
+  },
+  listBlocked: () =>
+    prisma.rateLimit.findMany({
+      where: {
+        blockedUntil: {
+          gt: new Date()
+        }
+      },
+      orderBy: {
+        blockedUntil: "desc"
+      }
+    })
+});
+
+const memoryStore = createMemoryStore();
+
+export const getRateLimitStore = (prisma: PrismaClient) =>
+  env.RATE_LIMIT_STORE === "memory" ? memoryStore : createDatabaseStore(prisma);
+
+/**
+ * Counts a request against the bucket and tells whether it may go through
+ */
+export const consumeRateLimit = async (
+  key: string,
+  { limit, windowMs }: RateLimitRule,
+  store: RateLimitStore
+) => {
+  const now = new Date();
+  const entry = await store.increment(key, windowMs);
+  if (entry.blockedUntil && entry.blockedUntil > now) {
+    return { allowed: false, retryAt: entry.blockedUntil };
+  }
+  if (entry.count <= limit) {
+    return { allowed: true, retryAt: entry.resetAt };
+  }
+  // Blocked for the rest of the window, which also lists it for admins
+  if (entry.count === limit + 1) {
+    await store.block(key, entry.resetAt);
+  }
+  return { allowed: false, retryAt: entry.resetAt };
+};
+
+export const retryAfterMessage = (retryAt: Date) => {
+  const minutes = Math.max(Math.ceil((retryAt.getTime() - Date.now()) / 60000), 1);
+  return `För många försök, vänta ${minutes} ${minutes === 1 ? "minut" : "minuter"} och försök igen`;
+};
+
+// Clients can send their own x-forwarded-for, only the address our proxy
+// appended last can be trusted
+export const getClientIp = (req?: {
+  headers?: IncomingMessage["headers"];
+  socket?: { remoteAddress?: string };
+}) => {
+  const forwardedFor = req?.headers?.["x-forwarded-for"];
+  const ip = (Array.isArray(forwardedFor) ? forwardedFor.join(",") : forwardedFor)
+    ?.split(",")
+    .pop()
+    ?.trim();
+  return ip || req?.socket?.remoteAddress || "unknown";
+};
+
+export const LOGIN_MAX_FAILURES = 5;
+export const LOGIN_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+export const LOGIN_LOCKOUT_MS = 15 * 60 * 1000;
+// Across all accounts, catches one client guessing many emails
+export const LOGIN_IP_RULE: RateLimitRule = { limit: 30, windowMs: 15 * 60 * 1000 };
+
+export const loginKey = (email: string) => `login:${email.trim().toLowerCase()}`;
+
+export const getLoginLockout = async (email: string, store: RateLimitStore) => {
+  const entry = await store.get(loginKey(email));
+  return entry?.blockedUntil && entry.blockedUntil > new Date()
+    ? entry.blockedUntil
+    : null;
+};
+
+/**
+ * Counted whether or not the account exists, so a lockout says nothing about it
+ */
+export const recordFailedLogin = async (email: string, store: RateLimitStore) => {
+  const key = loginKey(email);
+  const entry = await store.increment(key, LOGIN_FAILURE_WINDOW_MS);
+  if (entry.count >= LOGIN_MAX_FAILURES) {
+    await store.block(key, addMilliseconds(new Date(), LOGIN_LOCKOUT_MS));
+  }
+};
+
+export const clearFailedLogins = (email: string, store: RateLimitStore) =>
+  store.reset(loginKey(email));
@@ -0,0 +1,153 @@
+import { type PrismaClient, SwishPaymentStatus } from "@prisma/client";
+import { subMinutes } from "date-fns";
+import {
+  OPEN_REFUND_STATUSES,
+  processEventPaymentCallback,
+  processEventRefundCallback,
+  processMemberPaymentCallback,
+  processMemberRefundCallback
+} from "~/server/utils/swishCallbacks";
+import { releaseExpiredSeatHolds } from "~/server/utils/waitlist";
+import { getPaymentStatus, getRefundStatus } from "~/utils/swishHelpers";
+import {
+  swishCallbackPaymentSchema,
+  swishCallbackRefundSchema
+} from "~/utils/zodSchemas";
+
+// Callbacks normally arrive within seconds, give Swish some slack before asking
+export const STALE_AFTER_MINUTES = 15;
+
+interface ReconciliationResult {
+  id: string;
+  status?: string;
+  error?: string;
+}
+
+export interface ReconciliationReport {
+  payments: {
+    checked: number;
+    updated: ReconciliationResult[];
+    unchanged: ReconciliationResult[];
+    failed: ReconciliationResult[];
+  };
+  refunds: {
+    checked: number;
+    updated: ReconciliationResult[];
+    unchanged: ReconciliationResult[];
+    failed: ReconciliationResult[];
+  };
+  seatHolds: {
+    released: number;
+    offered: number;
+  };
+}
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Payments that are still CREATED after STALE_AFTER_MINUTES, i.e. never got a
+ * status update from Swish, and paid ones whose confirmation email failed.
+ */
+const getStalePayments = (prisma: PrismaClient) =>
+  prisma.swishPayment.findMany({
+    where: {
+      OR: [
+        { status: SwishPaymentStatus.CREATED },
+        { status: SwishPaymentStatus.PAID, confirmationSentAt: null }
+      ],
+      createdAt: {
+        lt: subMinutes(new Date(), STALE_AFTER_MINUTES)
+      }
+    }
+  });
+
+const getStaleRefunds = (prisma: PrismaClient) =>
+  prisma.swishRefund.findMany({
+    include: {
+      _count: {
+        select: {
+          participants: true
+        }
+      }
+    },
+    where: {
+      status: {
+        in: OPEN_REFUND_STATUSES
+      },
+      createdAt: {
+        lt: subMinutes(new Date(), STALE_AFTER_MINUTES)
+      }
+    }
+  });
+
+/**
+ * Asks Swish for the status of every stale payment and refund and records
+ * any change through the same path as the callbacks. Also gives the seats of
+ * expired holds to the waitlist.
+ */
+export const reconcileSwishPayments = async (
+  prisma: PrismaClient
+): Promise<ReconciliationReport> => {
+  const report: ReconciliationReport = {
+    payments: { checked: 0, updated: [], unchanged: [], failed: [] },
+    refunds: { checked: 0, updated: [], unchanged: [], failed: [] },
+    seatHolds: { released: 0, offered: 0 }
+  };
+
+  const stalePayments = await getStalePayments(prisma);
+  report.payments.checked = stalePayments.length;
+  for (const payment of stalePayments) {
+    try {
+      const res = await getPaymentStatus(payment.paymentId);
+      const status = swishCallbackPaymentSchema.parse(res.data);
+      if (status.status === SwishPaymentStatus.CREATED) {
+        report.payments.unchanged.push({ id: payment.paymentId, status: status.status });
+        continue;
+      }
+      if (payment.memberShipId) {
+        await processMemberPaymentCallback(status, payment, prisma);
+      } else {
+        await processEventPaymentCallback(status, payment, prisma);
+      }
+      report.payments.updated.push({ id: payment.paymentId, status: status.status });
+    } catch (error) {
+      console.error(`Error reconciling payment ${payment.paymentId}`);
+      console.error(error);
+      report.payments.failed.push({ id: payment.paymentId, error: errorMessage(error) });
+    }
+  }
+
+  const staleRefunds = await getStaleRefunds(prisma);
+  report.refunds.checked = staleRefunds.length;
+  for (const refund of staleRefunds) {
+    try {
+      const res = await getRefundStatus(refund.refundId);
+      const status = swishCallbackRefundSchema.parse(res.data);
+      if (status.status === refund.status) {
+        report.refunds.unchanged.push({ id: refund.refundId, status: status.status });
+        continue;
+      }
+      if (refund._count.participants) {
+        await processEventRefundCallback(status, refund, prisma);
+      } else {
+        await processMemberRefundCallback(status, refund, prisma);
+      }
+      report.refunds.updated.push({ id: refund.refundId, status: status.status });
+    } catch (error) {
+      console.error(`Error reconciling refund ${refund.refundId}`);
+      console.error(error);
+      report.refunds.failed.push({ id: refund.refundId, error: errorMessage(error) });
+    }
+  }
+
+  // Holds of payments that never got anywhere run out before the payment is stale
+  try {
+    report.seatHolds = await releaseExpiredSeatHolds(prisma);
+  } catch (error) {
+    console.error("Error releasing expired seat holds");
+    console.error(error);
+  }
+
+  return report;
+};
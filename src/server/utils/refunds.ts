@@ -0,0 +1,301 @@
+import {
+  type Prisma,
+  type PrismaClient,
+  type SwishPayment,
+  type SwishRefund,
+  SwishPaymentStatus,
+  SwishRefundStatus
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { Resend } from "resend";
+import { RefundNotice } from "~/components/emails/RefundNotice";
+import { env } from "~/env.mjs";
+import { createCallbackUrl } from "~/utils/payment";
+import {
+  createCallbackSecret,
+  createRefundRequest,
+  createSwishUUID
+} from "~/utils/swishHelpers";
+
+const resend = new Resend(env.RESEND_API_KEY);
+
+export type RefundState = "REFUNDED" | "PENDING" | "FAILED";
+
+// Every refund is a single row holding its current status
+const getRefundState = (refund: SwishRefund): RefundState => {
+  if (refund.status === SwishRefundStatus.PAID) {
+    return "REFUNDED";
+  }
+  if (refund.status === SwishRefundStatus.ERROR) {
+    return "FAILED";
+  }
+  return "PENDING";
+};
+
+/**
+ * State of the latest attempt to refund a participant, or null if
+ * no refund has been requested.
+ */
+export const getParticipantRefundState = (
+  refunds: SwishRefund[]
+): RefundState | null => {
+  const states = refunds.map(getRefundState);
+  if (states.includes("REFUNDED")) {
+    return "REFUNDED";
+  }
+  if (states.includes("PENDING")) {
+    return "PENDING";
+  }
+  return states.length ? "FAILED" : null;
+};
+
+/**
+ * Amount refunded, or about to be refunded, on a payment.
+ * Failed refunds don't count.
+ */
+export const getRefundedAmount = async (
+  paymentId: string,
+  prisma: Prisma.TransactionClient
+) => {
+  const refunds = await prisma.swishRefund.findMany({
+    where: {
+      paymentId,
+      status: {
+        not: SwishRefundStatus.ERROR
+      }
+    }
+  });
+  return refunds.reduce((acc, refund) => acc + refund.amount, 0);
+};
+
+type RefundableParticipant = Prisma.ParticipantGetPayload<{
+  include: {
+    event: true;
+    swishRefunds: true;
+  };
+}>;
+
+/**
+ * Requests a single Swish refund of amount, covering the given participants
+ * of a payment. Guards against refunding anyone twice or more than was paid.
+ *
+ * The refund row is created before Swish is asked, with the payment row locked
+ * while the earlier refunds are checked, so parallel cancellations of the same
+ * payment wait for each other and the second one finds the first refund.
+ * @returns the id of the refund
+ */
+export const requestParticipantRefund = async (
+  swishPayment: SwishPayment,
+  participants: RefundableParticipant[],
+  amount: number,
+  prisma: PrismaClient,
+  reason?: string
+) => {
+  const [participant] = participants;
+  if (!participant) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Participant not found"
+    });
+  }
+
+  // Paid payments always know their payer, the refund goes back to them
+  const payeeAlias = swishPayment.payerAlias;
+  if (!payeeAlias || participants.some((p) => !p.payAmount)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Payment not found"
+    });
+  }
+
+  if (amount <= 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Inget belopp att återbetala"
+    });
+  }
+
+  const [eventNameShort] = participant.event.name.replaceAll("/", "-").split(" ");
+  const message = `Återbetalning: ${eventNameShort ?? ""}, ${
+    participants.length > 1
+      ? `${participants.length} resenärer`
+      : participant.name
+  }`.slice(0, 50);
+  const callbackSecret = createCallbackSecret();
+  const refundId = createSwishUUID();
+  const refundData = {
+    originalPaymentReference: swishPayment.paymentId,
+    callbackUrl: createCallbackUrl("swishEventCallback", callbackSecret),
+    payerAlias: "1234679304",
+    amount,
+    currency: "SEK",
+    message
+  };
+
+  await prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM SwishPayment WHERE id = ${swishPayment.id} FOR UPDATE`;
+
+    const refunds = await tx.swishRefund.findMany({
+      where: {
+        participants: {
+          some: {
+            id: {
+              in: participants.map((p) => p.id)
+            }
+          }
+        }
+      },
+      include: {
+        participants: {
+          select: {
+            id: true
+          }
+        }
+      }
+    });
+    const isAlreadyCancelled = participants.some((p) => {
+      const refundState = getParticipantRefundState(
+        refunds.filter((refund) => refund.participants.some((x) => x.id === p.id))
+      );
+      return refundState === "REFUNDED" || refundState === "PENDING";
+    });
+    if (isAlreadyCancelled) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "En eller flera resenärer är redan avbokade"
+      });
+    }
+
+    const refundedAmount = await getRefundedAmount(swishPayment.id, tx);
+    if (refundedAmount + amount > swishPayment.amount) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Beloppet överstiger det som finns kvar att återbetala"
+      });
+    }
+
+    await tx.swishRefund.create({
+      data: {
+        refundId,
+        paymentId: swishPayment.id,
+        paymentReference: swishPayment.paymentReference,
+        payerAlias: refundData.payerAlias,
+        payeeAlias,
+        amount: refundData.amount,
+        message: refundData.message,
+        status: SwishRefundStatus.CREATED,
+        callbackSecret,
+        reason,
+        participants: {
+          connect: participants.map((p) => ({ id: p.id }))
+        }
+      }
+    });
+  });
+
+  try {
+    await createRefundRequest(refundData, refundId);
+    return refundId;
+  } catch (err) {
+    console.error("Error creating refund request");
+    const error = err as { response: { data: unknown } };
+    console.error(error?.response?.data);
+    // Frees the participants for another attempt
+    await prisma.swishRefund.update({
+      where: {
+        refundId
+      },
+      data: {
+        status: SwishRefundStatus.ERROR,
+        errorMessage: "Swish did not accept the refund request"
+      }
+    });
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR"
+    });
+  }
+};
+
+/**
+ * Refunds the full price to participants, regardless of the cancellation policy.
+ * Used by admins when a trip is cancelled. Participants sharing a payment get
+ * one combined refund, each of them is notified by email.
+ */
+export const refundParticipantsAsAdmin = async (
+  where: Prisma.ParticipantWhereInput,
+  reason: string,
+  prisma: PrismaClient
+) => {
+  const participants = await prisma.participant.findMany({
+    where,
+    include: {
+      event: true,
+      swishRefunds: true,
+      swishPayments: {
+        where: {
+          status: SwishPaymentStatus.PAID
+        }
+      }
+    }
+  });
+
+  const refundable = participants.filter((p) => {
+    const refundState = getParticipantRefundState(p.swishRefunds);
+    return (
+      p.swishPayments.length > 0 &&
+      refundState !== "REFUNDED" &&
+      refundState !== "PENDING"
+    );
+  });
+
+  const byPayment = new Map<string, typeof refundable>();
+  for (const participant of refundable) {
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const payment = participant.swishPayments[0]!;
+    byPayment.set(payment.id, [...(byPayment.get(payment.id) ?? []), participant]);
+  }
+
+  const refundIds: string[] = [];
+  const failed: { name: string; error: string }[] = [];
+  for (const group of byPayment.values()) {
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const payment = group[0]!.swishPayments[0]!;
+    const amount = group.reduce((acc, p) => acc + (p.payAmount ?? 0), 0);
+    try {
+      refundIds.push(
+        await requestParticipantRefund(payment, group, amount, prisma, reason)
+      );
+    } catch (error) {
+      console.error(`Error refunding payment ${payment.paymentId}`);
+      console.error(error);
+      const message = error instanceof Error ? error.message : String(error);
+      failed.push(...group.map((p) => ({ name: p.name, error: message })));
+      continue;
+    }
+
+    await Promise.all(
+      group.map(async (participant) => {
+        try {
+          await resend.sendEmail({
+            from: env.BOOKING_EMAIL,
+            to:
+              env.USE_DEV_MODE === "true"
+                ? "filip.nystrand@gmail.com"
+                : participant.email,
+            subject: `Resan till ${participant.event.name} är avbokad`,
+            react: RefundNotice({ participant, reason })
+          });
+        } catch (error) {
+          console.error("Error sending refund notice");
+          console.error(error);
+        }
+      })
+    );
+  }
+
+  return {
+    refundIds,
+    failed,
+    skipped: participants.length - refundable.length
+  };
+};
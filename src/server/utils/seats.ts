@@ -0,0 +1,148 @@
+import {
+  Prisma,
+  type PrismaClient,
+  SwishPaymentStatus,
+  SwishRefundStatus,
+  WaitlistStatus
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { addMinutes } from "date-fns";
+
+// Swish payment requests time out after a few minutes, the hold outlives that
+export const SEAT_HOLD_MINUTES = 10;
+
+export const getSeatHoldExpiry = () => addMinutes(new Date(), SEAT_HOLD_MINUTES);
+
+/**
+ * Passengers taking up a seat: either paid and not refunded,
+ * or holding a seat while their Swish payment is in flight.
+ */
+export const bookedPassengerWhere = (): Prisma.ParticipantWhereInput => ({
+  OR: [
+    {
+      swishPayments: {
+        some: {
+          status: SwishPaymentStatus.PAID
+        }
+      },
+      swishRefunds: {
+        none: {
+          status: SwishRefundStatus.PAID
+        }
+      }
+    },
+    {
+      reservedUntil: {
+        gt: new Date()
+      }
+    }
+  ]
+});
+
+/**
+ * Offers keeping a seat free for the traveller. While the offer is being paid
+ * the seat is held by the passenger instead, so it isn't counted twice.
+ */
+export const activeWaitlistOfferWhere = (
+  excludeOfferId?: string
+): Prisma.WaitlistEntryWhereInput => ({
+  status: WaitlistStatus.OFFERED,
+  offerExpiresAt: {
+    gt: new Date()
+  },
+  id: excludeOfferId ? { not: excludeOfferId } : undefined,
+  OR: [
+    { swishPaymentId: null },
+    {
+      swishPayment: {
+        is: {
+          participants: {
+            none: {
+              reservedUntil: {
+                gt: new Date()
+              }
+            }
+          }
+        }
+      }
+    }
+  ]
+});
+
+export const getBusesWithSeatCount = async (
+  eventId: string,
+  prisma: Prisma.TransactionClient,
+  excludeOfferId?: string
+) => {
+  const buses = await prisma.bus.findMany({
+    where: {
+      eventId
+    },
+    include: {
+      _count: {
+        select: {
+          passengers: {
+            where: bookedPassengerWhere()
+          },
+          waitlist: {
+            where: activeWaitlistOfferWhere(excludeOfferId)
+          }
+        }
+      }
+    }
+  });
+  return buses.map((bus) => ({
+    ...bus,
+    freeSeats: bus.seats - bus._count.passengers - bus._count.waitlist
+  }));
+};
+
+export const releaseSeatHolds = (
+  participantIds: string[],
+  prisma: Prisma.TransactionClient
+) => {
+  return prisma.participant.updateMany({
+    where: {
+      id: {
+        in: participantIds
+      }
+    },
+    data: {
+      reservedUntil: null
+    }
+  });
+};
+
+// Parallel bookings of the last seats abort all but one serializable transaction
+const SERIALIZABLE_ATTEMPTS = 3;
+
+const isSerializationError = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === "P2034";
+
+/**
+ * Counts and holds seats, for a booking or a waitlist offer, in one serializable
+ * transaction, retried a few times when a parallel booking got in between.
+ */
+export const holdSeatsInTransaction = async <T>(
+  prisma: PrismaClient,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+) => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(fn, {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable
+      });
+    } catch (error) {
+      if (!isSerializationError(error)) {
+        throw error;
+      }
+      if (attempt >= SERIALIZABLE_ATTEMPTS) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "Många bokar just nu, försök igen om en stund"
+        });
+      }
+    }
+  }
+};
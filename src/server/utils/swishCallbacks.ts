@@ -0,0 +1,422 @@
+import {
+  Prisma,
+  type PrismaClient,
+  type SwishPayment,
+  type SwishRefund,
+  SwishPaymentStatus,
+  SwishRefundStatus
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { Resend } from "resend";
+import { type z } from "zod";
+import { EventSignUp } from "~/components/emails/EventSignUp";
+import MemberSignup from "~/components/emails/MemberSignUp";
+import { env } from "~/env.mjs";
+import { type ParticipantWithBusAndEvent } from "~/server/api/routers/eventPayment";
+import { sendHouseholdInvites } from "~/server/utils/household";
+import { releaseSeatHolds } from "~/server/utils/seats";
+import { createTicketUrl } from "~/server/utils/tickets";
+import {
+  offerNextWaitlistSeats,
+  settleWaitlistPayment
+} from "~/server/utils/waitlist";
+import {
+  type swishCallbackPaymentSchema,
+  type swishCallbackRefundSchema
+} from "~/utils/zodSchemas";
+
+/**
+ * Status updates from Swish, either pushed to our callback endpoints or
+ * fetched by the reconciliation job, are written through these functions.
+ *
+ * Swish retries callbacks, so every status is appended to the event log together
+ * with the state change. A status that is already in the log is a duplicate and
+ * doesn't change the state again, which makes it safe to process the same
+ * callback any number of times. Steps that must happen once a payment or refund
+ * is PAID are idempotent and also run for duplicates, so a retry completes them.
+ */
+
+const resend = new Resend(env.RESEND_API_KEY);
+
+export type SwishPaymentCallback = z.infer<typeof swishCallbackPaymentSchema>;
+export type SwishRefundCallback = z.infer<typeof swishCallbackRefundSchema>;
+
+// A refund in any other status is settled and never changes again
+export const OPEN_REFUND_STATUSES: SwishRefundStatus[] = [
+  SwishRefundStatus.CREATED,
+  SwishRefundStatus.DEBITED,
+  SwishRefundStatus.VALIDATED
+];
+
+const isUniqueConstraintError = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === "P2002";
+
+/**
+ * Appends the status to the event log and moves the payment out of CREATED in
+ * one transaction, so a failed update rolls back the log row and the retry isn't
+ * taken for a duplicate. Callbacks arriving out of order can't overwrite a
+ * payment that is already settled.
+ * @returns false if the status is a duplicate or the payment was already settled
+ */
+const recordPaymentStatus = async (
+  input: SwishPaymentCallback,
+  payment: SwishPayment,
+  prisma: PrismaClient
+) => {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      await tx.swishPaymentEvent.create({
+        data: {
+          paymentId: payment.id,
+          swishId: input.id,
+          status: input.status,
+          payload: input
+        }
+      });
+      if (input.status === SwishPaymentStatus.CREATED) {
+        return false;
+      }
+      const { count } = await tx.swishPayment.updateMany({
+        where: {
+          id: payment.id,
+          status: SwishPaymentStatus.CREATED
+        },
+        data: {
+          status: input.status,
+          payerAlias: input.payerAlias ?? payment.payerAlias,
+          paymentReference: input.paymentReference,
+          errorCode: input.errorCode,
+          errorMessage: input.errorMessage
+        }
+      });
+      return count > 0;
+    });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      console.info(`Ignoring duplicate ${input.status} for payment ${input.id}`);
+      return false;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Same as recordPaymentStatus, a settled refund never changes again.
+ * @returns false if the status is a duplicate or the refund was already settled
+ */
+const recordRefundStatus = async (
+  input: SwishRefundCallback,
+  refund: SwishRefund,
+  prisma: PrismaClient
+) => {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      await tx.swishRefundEvent.create({
+        data: {
+          refundId: refund.id,
+          swishId: input.id,
+          status: input.status,
+          payload: input
+        }
+      });
+      const { count } = await tx.swishRefund.updateMany({
+        where: {
+          id: refund.id,
+          status: {
+            in: OPEN_REFUND_STATUSES
+          }
+        },
+        data: {
+          status: input.status,
+          payeeAlias: input.payeeAlias || refund.payeeAlias,
+          paymentReference: input.originalPaymentReference,
+          dateRefunded: input.datePaid ? new Date(input.datePaid) : undefined
+        }
+      });
+      return count > 0;
+    });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      console.info(`Ignoring duplicate ${input.status} for refund ${input.id}`);
+      return false;
+    }
+    throw error;
+  }
+};
+
+const isPaymentPaid = async (payment: SwishPayment, prisma: PrismaClient) => {
+  const current = await prisma.swishPayment.findUnique({
+    where: {
+      id: payment.id
+    }
+  });
+  return current?.status === SwishPaymentStatus.PAID;
+};
+
+const isRefundPaid = async (refund: SwishRefund, prisma: PrismaClient) => {
+  const current = await prisma.swishRefund.findUnique({
+    where: {
+      id: refund.id
+    }
+  });
+  return current?.status === SwishRefundStatus.PAID;
+};
+
+/**
+ * Marks the confirmation as sent before sending it, so concurrent callbacks
+ * can't both send it. A failed send is released with releaseConfirmation.
+ * @returns true for exactly one caller per payment
+ */
+const claimConfirmation = async (payment: SwishPayment, prisma: PrismaClient) => {
+  const { count } = await prisma.swishPayment.updateMany({
+    where: {
+      id: payment.id,
+      confirmationSentAt: null
+    },
+    data: {
+      confirmationSentAt: new Date()
+    }
+  });
+  return count > 0;
+};
+
+// The next duplicate callback or reconciliation run sends it again
+const releaseConfirmation = (payment: SwishPayment, prisma: PrismaClient) =>
+  prisma.swishPayment.update({
+    where: {
+      id: payment.id
+    },
+    data: {
+      confirmationSentAt: null
+    }
+  });
+
+const sendConfirmationEmail = async (
+  participant: ParticipantWithBusAndEvent
+) => {
+  const cancellationUrl = `${env.CANCELLATION_URL}?token=${
+    participant?.cancellationToken || ""
+  }`;
+  return await resend.sendEmail({
+    from: env.BOOKING_EMAIL,
+    to: env.USE_DEV_MODE === "true" ? "filip.nystrand@gmail.com" : participant.email,
+    subject: `Anmälan till ${participant?.event?.name}`,
+    react: EventSignUp({
+      participant,
+      cancellationUrl,
+      ticketUrl: createTicketUrl(participant)
+    })
+  });
+};
+
+export const processEventPaymentCallback = async (
+  input: SwishPaymentCallback,
+  payment: SwishPayment,
+  prisma: PrismaClient
+) => {
+  const changed = await recordPaymentStatus(input, payment, prisma);
+  // Also run for duplicates of PAID, so a retry finishes what a failed attempt started
+  const paid =
+    input.status === SwishPaymentStatus.PAID &&
+    (await isPaymentPaid(payment, prisma));
+  if (!changed && !paid) {
+    return;
+  }
+
+  const participants = await prisma.participant.findMany({
+    where: {
+      swishPayments: {
+        some: {
+          id: payment.id
+        }
+      }
+    },
+    include: {
+      bus: true,
+      event: true
+    }
+  });
+
+  // Paid seats are counted as booked, failed payments give up the seat
+  await releaseSeatHolds(
+    participants.map((p) => p.id),
+    prisma
+  );
+
+  try {
+    await settleWaitlistPayment(payment.id, paid, prisma);
+    // The seats of a failed payment are free, offer them to the next in line
+    if (!paid) {
+      const eventIds = [...new Set(participants.map((p) => p.eventId))];
+      await Promise.all(
+        eventIds.map((eventId) => offerNextWaitlistSeats(eventId, prisma))
+      );
+    }
+  } catch (error) {
+    console.error("Error offering waitlist seats");
+    console.error(error);
+    // Don't return error to Swish
+  }
+
+  if (paid && (await claimConfirmation(payment, prisma))) {
+    try {
+      console.log(
+        "Sending confirmation email to: ",
+        participants.map((p) => p.email).join(", ")
+      );
+      await Promise.all(participants.map((p) => sendConfirmationEmail(p)));
+    } catch (error) {
+      console.error("Error sending confirmation email");
+      console.error(error);
+      await releaseConfirmation(payment, prisma);
+      // Don't return error to Swish
+    }
+  }
+};
+
+export const processEventRefundCallback = async (
+  input: SwishRefundCallback,
+  refund: SwishRefund,
+  prisma: PrismaClient
+) => {
+  const participants = await prisma.participant.findMany({
+    where: {
+      swishRefunds: {
+        some: {
+          id: refund.id
+        }
+      }
+    }
+  });
+
+  const [participant] = participants;
+  if (!participant) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Refund has no participants"
+    });
+  }
+
+  await recordRefundStatus(input, refund, prisma);
+
+  // Also run for duplicates of PAID, so a retry finishes what a failed attempt started
+  if (
+    input.status === SwishRefundStatus.PAID &&
+    (await isRefundPaid(refund, prisma))
+  ) {
+    // A failed refund leaves the booking in place
+    const { count } = await prisma.participant.updateMany({
+      where: {
+        id: {
+          in: participants.map((p) => p.id)
+        },
+        cancellationDate: null
+      },
+      data: {
+        cancellationDate: new Date()
+      }
+    });
+    if (!count) {
+      return;
+    }
+
+    try {
+      // The refunded seats are free, offer them to the next in line
+      await offerNextWaitlistSeats(participant.eventId, prisma);
+    } catch (error) {
+      console.error("Error offering waitlist seats");
+      console.error(error);
+      // Don't return error to Swish
+    }
+  }
+};
+
+export const processMemberPaymentCallback = async (
+  input: SwishPaymentCallback,
+  payment: SwishPayment,
+  prisma: PrismaClient
+) => {
+  const membership = payment.memberShipId
+    ? await prisma.membership.findUnique({
+        where: {
+          id: payment.memberShipId
+        }
+      })
+    : null;
+
+  if (!membership) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Membership not found"
+    });
+  }
+
+  await recordPaymentStatus(input, payment, prisma);
+
+  // Also run for duplicates of PAID, so a retry grants what a failed attempt didn't
+  if (
+    input.status !== SwishPaymentStatus.PAID ||
+    !(await isPaymentPaid(payment, prisma))
+  ) {
+    return;
+  }
+
+  // Connecting is idempotent, errors go back to Swish so the callback is retried
+  const user = payment.userId
+    ? await prisma.user.update({
+        where: {
+          id: payment.userId
+        },
+        data: {
+          memberShips: {
+            connect: {
+              id: membership.id
+            }
+          },
+          phone: input.payerAlias ?? undefined
+        }
+      })
+    : null;
+
+  if (!(await claimConfirmation(payment, prisma))) {
+    return;
+  }
+
+  // Stays claimed, there is nobody to send it to on a retry either
+  if (!user?.email) {
+    console.error(`User email not found for payment id ${payment.id}`);
+  } else {
+    try {
+      await resend.sendEmail({
+        from: env.BOOKING_EMAIL,
+        to: env.USE_DEV_MODE === "true" ? "filip.nystrand@gmail.com" : user.email,
+        subject: "Tack för att du blivit medlem i Västra Sidan",
+        react: MemberSignup({
+          membership
+        })
+      });
+    } catch (error) {
+      console.error("Error sending confirmation email");
+      console.error(error);
+      await releaseConfirmation(payment, prisma);
+      // Don't return error to Swish
+    }
+  }
+
+  try {
+    await sendHouseholdInvites(payment.id, prisma);
+  } catch (error) {
+    console.error("Error sending household invites");
+    console.error(error);
+    // Don't return error to Swish
+  }
+};
+
+export const processMemberRefundCallback = async (
+  input: SwishRefundCallback,
+  refund: SwishRefund,
+  prisma: PrismaClient
+) => {
+  await recordRefundStatus(input, refund, prisma);
+};
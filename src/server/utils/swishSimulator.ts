@@ -0,0 +1,199 @@
+import { SwishPaymentStatus, SwishRefundStatus } from "@prisma/client";
+import axios from "axios";
+import { env } from "~/env.mjs";
+import {
+  type PaymentRequest,
+  type RefundRequest
+} from "~/utils/swishHelpers";
+import { type z } from "zod";
+import {
+  type swishCallbackPaymentSchema,
+  type swishCallbackRefundSchema
+} from "~/utils/zodSchemas";
+
+type SwishPaymentCallback = z.infer<typeof swishCallbackPaymentSchema>;
+type SwishRefundCallback = z.infer<typeof swishCallbackRefundSchema>;
+
+/**
+ * In-memory stand-in for the Swish merchant API, served from
+ * /api/swish-simulator when SWISH_SIMULATOR is enabled. Point
+ * SWISH_MERCHANT_BASEURL at it to run the booking flow without certificates.
+ */
+
+export type SimulatorOutcome = "PAID" | "DECLINED" | "ERROR";
+
+export interface SimulatorConfig {
+  outcome: SimulatorOutcome;
+  // Time before Swish "answers" and the callback is sent
+  delayMs: number;
+  // Swish may deliver the same callback more than once
+  duplicateCallbacks: boolean;
+  // Leave requests as CREATED, e.g. to exercise the reconciliation job
+  skipCallbacks: boolean;
+}
+
+interface SimulatorState {
+  config: SimulatorConfig;
+  payments: Map<string, SwishPaymentCallback>;
+  refunds: Map<string, SwishRefundCallback>;
+}
+
+const globalForSimulator = globalThis as unknown as {
+  swishSimulator: SimulatorState | undefined;
+};
+
+// Kept on globalThis so the state survives hot reloads in development
+const simulator: SimulatorState = globalForSimulator.swishSimulator ?? {
+  config: {
+    outcome: env.SWISH_SIMULATOR_OUTCOME,
+    delayMs: env.SWISH_SIMULATOR_DELAY_MS,
+    duplicateCallbacks: env.SWISH_SIMULATOR_DUPLICATE_CALLBACKS === "true",
+    skipCallbacks: false
+  },
+  payments: new Map<string, SwishPaymentCallback>(),
+  refunds: new Map<string, SwishRefundCallback>()
+};
+
+globalForSimulator.swishSimulator = simulator;
+
+export const getSimulatorConfig = () => simulator.config;
+
+export const updateSimulatorConfig = (config: Partial<SimulatorConfig>) => {
+  simulator.config = { ...simulator.config, ...config };
+  return simulator.config;
+};
+
+export const getSimulatedPayment = (
+  id: string
+): SwishPaymentCallback | undefined => simulator.payments.get(id);
+
+export const getSimulatedRefund = (
+  id: string
+): SwishRefundCallback | undefined => simulator.refunds.get(id);
+
+const createPaymentReference = () => {
+  return crypto.randomUUID().replaceAll("-", "").toUpperCase();
+};
+
+/**
+ * Callbacks only go back to this site, so the simulator can't be used to make
+ * requests to other hosts
+ */
+export const isAllowedCallbackUrl = (callbackUrl: string) => {
+  const apiUrl = env.API_URL.replace(/\/$/, "");
+  return callbackUrl === apiUrl || callbackUrl.startsWith(`${apiUrl}/`);
+};
+
+const sendCallback = async (
+  callbackUrl: string,
+  body: SwishPaymentCallback | SwishRefundCallback
+) => {
+  if (!isAllowedCallbackUrl(callbackUrl)) {
+    console.error(`Swish simulator refused callback to ${callbackUrl}`);
+    return;
+  }
+  const { duplicateCallbacks } = simulator.config;
+  const attempts = duplicateCallbacks ? 2 : 1;
+  for (let i = 0; i < attempts; i++) {
+    try {
+      await axios.post(callbackUrl, body);
+    } catch (error) {
+      // Real Swish doesn't care about our response either
+      console.error(`Swish simulator callback to ${callbackUrl} failed`);
+      console.error(error);
+    }
+  }
+};
+
+const scheduleCallback = (callback: () => Promise<void>) => {
+  if (simulator.config.skipCallbacks) {
+    return;
+  }
+  setTimeout(() => {
+    void callback();
+  }, simulator.config.delayMs);
+};
+
+export const createSimulatedPayment = (id: string, data: PaymentRequest) => {
+  const payment: SwishPaymentCallback = {
+    id,
+    payeePaymentReference: data.payeePaymentReference || "",
+    paymentReference: null,
+    callbackUrl: data.callbackUrl,
+    payerAlias: data.payerAlias || null,
+    payeeAlias: data.payeeAlias,
+    currency: data.currency,
+    message: data.message || "",
+    errorMessage: null,
+    status: SwishPaymentStatus.CREATED,
+    amount: Number(data.amount),
+    dateCreated: new Date().toISOString(),
+    datePaid: null,
+    errorCode: null
+  };
+  simulator.payments.set(id, payment);
+
+  const { outcome } = simulator.config;
+  scheduleCallback(async () => {
+    const settled: SwishPaymentCallback =
+      outcome === "PAID"
+        ? {
+            ...payment,
+            status: SwishPaymentStatus.PAID,
+            // M-commerce requests get their payer when someone pays
+            payerAlias: payment.payerAlias ?? "46700000000",
+            paymentReference: createPaymentReference(),
+            datePaid: new Date().toISOString()
+          }
+        : {
+            ...payment,
+            status:
+              outcome === "DECLINED"
+                ? SwishPaymentStatus.DECLINED
+                : SwishPaymentStatus.ERROR,
+            errorCode: outcome === "DECLINED" ? "RF07" : "BANKIDCL",
+            errorMessage:
+              outcome === "DECLINED"
+                ? "Transaction declined"
+                : "Payer cancelled BankId signing"
+          };
+    simulator.payments.set(id, settled);
+    await sendCallback(settled.callbackUrl, settled);
+  });
+
+  return payment;
+};
+
+export const createSimulatedRefund = (id: string, data: RefundRequest) => {
+  const refund: SwishRefundCallback = {
+    id,
+    amount: Number(data.amount),
+    originalPaymentReference: data.originalPaymentReference,
+    dateCreated: new Date().toISOString(),
+    payerPaymentReference: data.payeePaymentReference || null,
+    payerAlias: data.payerAlias || "",
+    callbackUrl: data.callbackUrl,
+    currency: data.currency,
+    payeeAlias: null,
+    message: data.message || "",
+    status: SwishRefundStatus.CREATED
+  };
+  simulator.refunds.set(id, refund);
+
+  const { outcome } = simulator.config;
+  scheduleCallback(async () => {
+    // Refunds can't be declined by the payer, anything but PAID is an error
+    const settled: SwishRefundCallback =
+      outcome === "PAID"
+        ? {
+            ...refund,
+            status: SwishRefundStatus.PAID,
+            datePaid: new Date().toISOString()
+          }
+        : { ...refund, status: SwishRefundStatus.ERROR };
+    simulator.refunds.set(id, settled);
+    await sendCallback(settled.callbackUrl, settled);
+  });
+
+  return refund;
+};
@@ -0,0 +1,133 @@
+import {
+  type Participant,
+  type PrismaClient,
+  SwishPaymentStatus,
+  SwishRefundStatus
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { createHmac, timingSafeEqual } from "crypto";
+import { env } from "~/env.mjs";
+import { isInBusScope } from "~/server/utils/busHosts";
+
+/**
+ * A ticket is the participant and event id signed with TICKET_SECRET, so it can
+ * be checked without storing anything and can't be made up by hand.
+ */
+
+const sign = (payload: string) =>
+  createHmac("sha256", env.TICKET_SECRET).update(payload).digest("base64url");
+
+export const createTicketToken = (
+  participant: Pick<Participant, "id" | "eventId">
+) => {
+  const payload = `${participant.id}.${participant.eventId}`;
+  return `${payload}.${sign(payload)}`;
+};
+
+export const verifyTicketToken = (token: string) => {
+  const [participantId, eventId, signature] = token.trim().split(".");
+  if (!participantId || !eventId || !signature) {
+    return null;
+  }
+  const expected = Buffer.from(sign(`${participantId}.${eventId}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return { participantId, eventId };
+};
+
+// Email clients don't show data urls, so the QR code is served as an image
+export const createTicketUrl = (
+  participant: Pick<Participant, "id" | "eventId">
+) => `${env.API_URL}/tickets/${createTicketToken(participant)}`;
+
+/**
+ * Checks in the holder of a scanned ticket, limited to `busScope` unless it is null.
+ * Throws with a message meant for the person scanning.
+ */
+export const checkInTicket = async (
+  token: string,
+  eventId: string,
+  busScope: string[] | null,
+  prisma: PrismaClient
+) => {
+  const ticket = verifyTicketToken(token);
+  if (!ticket) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Ogiltig biljett"
+    });
+  }
+
+  if (ticket.eventId !== eventId) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Biljetten gäller en annan resa"
+    });
+  }
+
+  const participant = await prisma.participant.findUnique({
+    where: {
+      id: ticket.participantId
+    },
+    include: {
+      bus: true,
+      swishPayments: {
+        where: {
+          status: SwishPaymentStatus.PAID
+        }
+      },
+      swishRefunds: {
+        where: {
+          status: SwishRefundStatus.PAID
+        }
+      }
+    }
+  });
+
+  if (!participant || !participant.swishPayments.length) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Biljetten är inte betald"
+    });
+  }
+
+  if (!isInBusScope(participant.busId, busScope)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `${participant.name} åker med en buss du inte är värd för`
+    });
+  }
+
+  if (participant.cancellationDate || participant.swishRefunds.length) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `${participant.name} har avbokat`
+    });
+  }
+
+  // Only one scan wins if the same ticket is scanned on two phones
+  const { count } = await prisma.participant.updateMany({
+    where: {
+      id: participant.id,
+      checkedIn: false
+    },
+    data: {
+      checkedIn: true,
+      checkedInUpdatedAt: new Date()
+    }
+  });
+
+  if (!count) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `${participant.name} är redan incheckad`
+    });
+  }
+
+  return {
+    name: participant.name,
+    busName: participant.bus?.name ?? null
+  };
+};
@@ -0,0 +1,75 @@
+import { type PrismaClient } from "@prisma/client";
+import { addMinutes } from "date-fns";
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * Single use tokens for links sent by email, stored in VerificationToken.
+ * The identifier is `<purpose>:<email>` and only a hash of the token is stored,
+ * the link in the email is the only copy.
+ */
+
+const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+/**
+ * Returns the token to put in the link, or null when `maxOpen` unused tokens
+ * are already out for this identifier
+ */
+export const createVerificationToken = async (
+  {
+    identifier,
+    ttlMinutes,
+    maxOpen
+  }: { identifier: string; ttlMinutes: number; maxOpen: number },
+  prisma: PrismaClient
+) => {
+  await prisma.verificationToken.deleteMany({
+    where: {
+      identifier,
+      expires: {
+        lt: new Date()
+      }
+    }
+  });
+  const openTokens = await prisma.verificationToken.count({
+    where: {
+      identifier
+    }
+  });
+  if (openTokens >= maxOpen) {
+    return null;
+  }
+
+  const token = randomBytes(32).toString("base64url");
+  await prisma.verificationToken.create({
+    data: {
+      identifier,
+      token: hashToken(token),
+      expires: addMinutes(new Date(), ttlMinutes)
+    }
+  });
+  return token;
+};
+
+/**
+ * The email a token was sent to, null if it is unknown, expired or for another purpose
+ */
+export const findVerificationTokenEmail = async (
+  token: string,
+  prefix: string,
+  prisma: PrismaClient
+) => {
+  const verificationToken = await prisma.verificationToken.findUnique({
+    where: {
+      token: hashToken(token)
+    }
+  });
+  if (
+    !verificationToken ||
+    !verificationToken.identifier.startsWith(prefix) ||
+    verificationToken.expires < new Date()
+  ) {
+    return null;
+  }
+  return verificationToken.identifier.slice(prefix.length);
+};
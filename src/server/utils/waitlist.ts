@@ -0,0 +1,248 @@
+import { type PrismaClient, WaitlistStatus } from "@prisma/client";
+import { addHours } from "date-fns";
+import { Resend } from "resend";
+import { WaitlistOffer } from "~/components/emails/WaitlistOffer";
+import { env } from "~/env.mjs";
+import {
+  getBusesWithSeatCount,
+  holdSeatsInTransaction,
+  releaseSeatHolds
+} from "~/server/utils/seats";
+
+const resend = new Resend(env.RESEND_API_KEY);
+
+// How long a waitlisted traveller has to pay for an offered seat
+export const WAITLIST_OFFER_HOURS = 24;
+
+export const isEventFullyBooked = async (
+  eventId: string,
+  prisma: PrismaClient
+) => {
+  const buses = await getBusesWithSeatCount(eventId, prisma);
+  return buses.every((bus) => bus.freeSeats <= 0);
+};
+
+export const isBusFullyBooked = async (
+  eventId: string,
+  busId: string,
+  prisma: PrismaClient
+) => {
+  const buses = await getBusesWithSeatCount(eventId, prisma);
+  const bus = buses.find((x) => x.id === busId);
+  return !bus || bus.freeSeats <= 0;
+};
+
+/**
+ * Offers every free seat on the event to the next travellers in line.
+ * Called whenever a seat is freed, e.g. when a refund is completed. Counting
+ * and offering is one serializable transaction, so two seats freed at the same
+ * time can't both be offered the same seat.
+ */
+export const offerNextWaitlistSeats = async (
+  eventId: string,
+  prisma: PrismaClient
+) => {
+  const offers = await holdSeatsInTransaction(prisma, async (tx) => {
+    const buses = await getBusesWithSeatCount(eventId, tx);
+    const created = [];
+    for (const bus of buses) {
+      for (let i = 0; i < bus.freeSeats; i++) {
+        const nextInLine = await tx.waitlistEntry.findFirst({
+          where: {
+            eventId,
+            status: WaitlistStatus.WAITING,
+            OR: [{ busId: bus.id }, { busId: null }]
+          },
+          orderBy: {
+            position: "asc"
+          }
+        });
+        if (!nextInLine) {
+          break;
+        }
+        const offeredAt = new Date();
+        const offer = await tx.waitlistEntry.update({
+          where: {
+            id: nextInLine.id
+          },
+          data: {
+            status: WaitlistStatus.OFFERED,
+            busId: bus.id,
+            offerToken: crypto.randomUUID(),
+            offeredAt,
+            offerExpiresAt: addHours(offeredAt, WAITLIST_OFFER_HOURS)
+          },
+          include: {
+            event: true,
+            bus: true
+          }
+        });
+        created.push(offer);
+      }
+    }
+    return created;
+  });
+
+  await Promise.all(
+    offers.map(async (offer) => {
+      try {
+        await resend.sendEmail({
+          from: env.BOOKING_EMAIL,
+          to:
+            env.USE_DEV_MODE === "true"
+              ? "filip.nystrand@gmail.com"
+              : offer.email,
+          subject: `Ledig plats till ${offer.event.name}`,
+          react: WaitlistOffer({ offer })
+        });
+      } catch (error) {
+        console.error("Error sending waitlist offer email");
+        console.error(error);
+      }
+    })
+  );
+
+  return offers;
+};
+
+/**
+ * Expires offers that were not paid in time and passes the seats on
+ * to the next travellers in line.
+ */
+export const expireWaitlistOffers = async (prisma: PrismaClient) => {
+  const expiredOffers = await prisma.waitlistEntry.findMany({
+    where: {
+      status: WaitlistStatus.OFFERED,
+      offerExpiresAt: {
+        lte: new Date()
+      }
+    }
+  });
+
+  if (!expiredOffers.length) {
+    return { expired: 0, offered: 0 };
+  }
+
+  await prisma.waitlistEntry.updateMany({
+    where: {
+      id: {
+        in: expiredOffers.map((x) => x.id)
+      }
+    },
+    data: {
+      status: WaitlistStatus.EXPIRED
+    }
+  });
+
+  const eventIds = [...new Set(expiredOffers.map((x) => x.eventId))];
+  const offers = await Promise.all(
+    eventIds.map((eventId) => offerNextWaitlistSeats(eventId, prisma))
+  );
+
+  return {
+    expired: expiredOffers.length,
+    offered: offers.flat().length
+  };
+};
+
+/**
+ * Clears seat holds that ran out before the payment completed, e.g. when the
+ * payer never opened Swish, and offers the freed seats to the next in line.
+ */
+export const releaseExpiredSeatHolds = async (prisma: PrismaClient) => {
+  const expiredHolds = await prisma.participant.findMany({
+    where: {
+      reservedUntil: {
+        lte: new Date()
+      }
+    },
+    select: {
+      id: true,
+      eventId: true
+    }
+  });
+
+  if (!expiredHolds.length) {
+    return { released: 0, offered: 0 };
+  }
+
+  await releaseSeatHolds(
+    expiredHolds.map((x) => x.id),
+    prisma
+  );
+
+  const eventIds = [...new Set(expiredHolds.map((x) => x.eventId))];
+  const offers = await Promise.all(
+    eventIds.map((eventId) => offerNextWaitlistSeats(eventId, prisma))
+  );
+
+  return {
+    released: expiredHolds.length,
+    offered: offers.flat().length
+  };
+};
+
+/**
+ * Settles the offer a payment was made for. A paid offer is accepted. After a
+ * failed payment the traveller can try again until the offer expires, an offer
+ * that expired during the payment is passed on to the next in line.
+ */
+export const settleWaitlistPayment = async (
+  paymentId: string,
+  paid: boolean,
+  prisma: PrismaClient
+) => {
+  if (paid) {
+    await prisma.waitlistEntry.updateMany({
+      where: {
+        swishPaymentId: paymentId
+      },
+      data: {
+        status: WaitlistStatus.ACCEPTED
+      }
+    });
+    return;
+  }
+
+  const expiredOffers = await prisma.waitlistEntry.findMany({
+    where: {
+      swishPaymentId: paymentId,
+      status: WaitlistStatus.OFFERED,
+      offerExpiresAt: {
+        lte: new Date()
+      }
+    }
+  });
+  if (!expiredOffers.length) {
+    return;
+  }
+  await prisma.waitlistEntry.updateMany({
+    where: {
+      id: {
+        in: expiredOffers.map((x) => x.id)
+      }
+    },
+    data: {
+      status: WaitlistStatus.EXPIRED
+    }
+  });
+  const eventIds = [...new Set(expiredOffers.map((x) => x.eventId))];
+  await Promise.all(
+    eventIds.map((eventId) => offerNextWaitlistSeats(eventId, prisma))
+  );
+};
+
+export const getNextWaitlistPosition = async (
+  eventId: string,
+  prisma: PrismaClient
+) => {
+  const last = await prisma.waitlistEntry.findFirst({
+    where: {
+      eventId
+    },
+    orderBy: {
+      position: "desc"
+    }
+  });
+  return (last?.position ?? 0) + 1;
+};
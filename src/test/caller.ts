@@ -0,0 +1,38 @@
+import { PrismaClient } from "@prisma/client";
+import { appRouter } from "~/server/api/root";
+import { createInnerTRPCContext } from "~/server/api/trpc";
+
+/**
+ * Integration tests call the routers directly on TEST_DATABASE_URL, see
+ * src/test/globalSetup.ts which pushes the schema to it.
+ */
+
+export const hasTestDatabase = !!process.env.TEST_DATABASE_URL;
+
+export const testPrisma = new PrismaClient({
+  datasourceUrl: process.env.TEST_DATABASE_URL
+});
+
+export const createTestCaller = ({
+  swishSecret
+}: { swishSecret?: string } = {}) =>
+  appRouter.createCaller(
+    createInnerTRPCContext({
+      session: null,
+      cronKey: null,
+      apolloClient: null,
+      ip: "127.0.0.1",
+      swishSecret,
+      prisma: testPrisma
+    })
+  );
+
+// Empties every table, the schema stays
+export const resetDatabase = async () => {
+  const tables = await testPrisma.$queryRaw<{ name: string }[]>`
+    SELECT TABLE_NAME AS name FROM information_schema.TABLES
+    WHERE TABLE_SCHEMA = DATABASE() AND TABLE_TYPE = 'BASE TABLE'`;
+  for (const { name } of tables) {
+    await testPrisma.$executeRawUnsafe(`TRUNCATE TABLE \`${name}\``);
+  }
+};
@@ -0,0 +1,20 @@
+import { execSync } from "child_process";
+
+/**
+ * Pushes the schema to TEST_DATABASE_URL before the integration tests run.
+ * The database is reset, never point it at one with data worth keeping.
+ */
+export default function setup() {
+  const url = process.env.TEST_DATABASE_URL;
+  if (!url) {
+    console.info("TEST_DATABASE_URL is not set, skipping the integration tests");
+    return;
+  }
+  execSync("npx prisma db push --force-reset --skip-generate", {
+    env: {
+      ...process.env,
+      DATABASE_URL: url
+    },
+    stdio: "inherit"
+  });
+}
@@ -0,0 +1,138 @@
+import { SwishPaymentStatus, SwishRefundStatus } from "@prisma/client";
+import { randomUUID } from "crypto";
+import { vi } from "vitest";
+import { type z } from "zod";
+import {
+  type PaymentRequest,
+  type RefundRequest
+} from "~/utils/swishHelpers";
+import {
+  type swishCallbackPaymentSchema,
+  type swishCallbackRefundSchema
+} from "~/utils/zodSchemas";
+
+/**
+ * Stand-ins for Resend and the Swish merchant API, test files mock "resend"
+ * with resendModule and spread swishHelpersStub over "~/utils/swishHelpers".
+ * Requests are recorded, so a test can answer them with the callback Swish
+ * would send.
+ */
+
+interface SentEmail {
+  from: string;
+  to: string | string[];
+  subject: string;
+}
+
+export const sendEmail = vi.fn((_email: SentEmail) =>
+  Promise.resolve({ id: randomUUID() })
+);
+
+export const resendModule = {
+  Resend: class {
+    sendEmail = sendEmail;
+  }
+};
+
+export const sentEmailsTo = (to: string) =>
+  sendEmail.mock.calls.map(([email]) => email).filter((email) => email.to === to);
+
+const paymentRequests = new Map<string, PaymentRequest>();
+const refundRequests = new Map<string, RefundRequest>();
+
+const createSwishId = () => randomUUID().replaceAll("-", "").toUpperCase();
+
+export const swishHelpersStub = {
+  createPaymentRequest: vi.fn((data: PaymentRequest) => {
+    const id = createSwishId();
+    paymentRequests.set(id, data);
+    return Promise.resolve({
+      headers: {
+        location: `https://swish.test/v2/paymentrequests/${id}`
+      }
+    });
+  }),
+  createRefundRequest: vi.fn((data: RefundRequest, instructionId: string) => {
+    refundRequests.set(instructionId, data);
+    return Promise.resolve({
+      headers: {
+        location: `https://swish.test/v2/refunds/${instructionId}`
+      }
+    });
+  }),
+  getPaymentQrCode: vi.fn(() => Promise.resolve(null))
+};
+
+export const resetStubs = () => {
+  sendEmail.mockClear();
+  swishHelpersStub.createPaymentRequest.mockClear();
+  swishHelpersStub.createRefundRequest.mockClear();
+  paymentRequests.clear();
+  refundRequests.clear();
+};
+
+// Swish echoes the callbackUrl, whose secret the callback endpoints check
+export const getCallbackSecret = (callbackUrl: string) =>
+  new URL(callbackUrl).searchParams.get("swish-secret") ?? "";
+
+/**
+ * The callback Swish sends when the payment request with the id settles
+ */
+export const createPaymentCallback = (
+  id: string,
+  status: SwishPaymentStatus = SwishPaymentStatus.PAID
+): z.infer<typeof swishCallbackPaymentSchema> => {
+  const request = paymentRequests.get(id);
+  if (!request) {
+    throw new Error(`No payment request ${id}`);
+  }
+  const paid = status === SwishPaymentStatus.PAID;
+  return {
+    id,
+    payeePaymentReference: request.payeePaymentReference ?? "",
+    paymentReference: paid ? createSwishId() : null,
+    callbackUrl: request.callbackUrl,
+    payerAlias: request.payerAlias ?? "46700000000",
+    payeeAlias: request.payeeAlias,
+    currency: request.currency,
+    message: request.message ?? "",
+    errorMessage: paid ? null : "Declined by the test",
+    status,
+    amount: Number(request.amount),
+    dateCreated: new Date().toISOString(),
+    datePaid: paid ? new Date().toISOString() : null,
+    errorCode: paid ? null : "RF07"
+  };
+};
+
+/**
+ * The callback Swish sends when the refund request with the id settles
+ */
+export const createRefundCallback = (
+  id: string,
+  status: SwishRefundStatus = SwishRefundStatus.PAID
+): z.infer<typeof swishCallbackRefundSchema> => {
+  const request = refundRequests.get(id);
+  if (!request) {
+    throw new Error(`No refund request ${id}`);
+  }
+  return {
+    id,
+    amount: Number(request.amount),
+    originalPaymentReference: request.originalPaymentReference,
+    dateCreated: new Date().toISOString(),
+    datePaid:
+      status === SwishRefundStatus.PAID ? new Date().toISOString() : undefined,
+    payerPaymentReference: null,
+    payerAlias: request.payerAlias ?? "",
+    callbackUrl: request.callbackUrl,
+    currency: request.currency,
+    payeeAlias: null,
+    message: request.message ?? "",
+    status
+  };
+};
+
+export const getPaymentRequest = (id: string) => paymentRequests.get(id);
+
+export const getRefundRequest = (id: string) => refundRequests.get(id);
@@ -66,9 +66,17 @@ export interface AwayGame {
     memberprice_youth: string;
     nonmemberprice: string;
     nonmemberprice_youth: string;
+    // Optional repeater, false when left empty in WP
+    cancellationTiers?: CancellationTier[] | false;
+    cancellationFee?: string;
   };
 }
 
+export interface CancellationTier {
+  hoursBeforeDeparture: string;
+  refundPercentage: string;
+}
+
 export interface Bus {
   busName: string;
   occupiedSeats: string;
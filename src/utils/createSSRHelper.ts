@@ -12,6 +12,8 @@ export const createSSRHelper = async () =>
       session: await getSession(),
       prisma: prisma,
       cronKey: "",
+      swishSecret: null,
+      ip: null,
       apolloClient,
     },
     transformer: superjson // optional - adds superjson serialization
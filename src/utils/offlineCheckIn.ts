@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import superjson from "superjson";
+import { type z } from "zod";
+import { type RouterOutputs } from "~/utils/api";
+import { type checkInChangeSchema } from "~/utils/zodSchemas";
+
+/**
+ * Lets bus hosts keep checking in passengers without coverage. The manifest is
+ * cached in localStorage and check-in toggles are queued there until they can
+ * be synced with admin.syncCheckIns. public/sw.js keeps the page itself
+ * available offline.
+ */
+
+export type AdminEvent = NonNullable<RouterOutputs["admin"]["getEvent"]>;
+export type QueuedCheckIn = z.infer<typeof checkInChangeSchema>;
+
+const MANIFEST_PREFIX = "checkin-manifest-";
+// Cached manifests hold passenger contact details, kept until the day after the event
+const MANIFEST_TTL = 24 * 60 * 60 * 1000;
+
+const manifestKey = (eventId: string) => `${MANIFEST_PREFIX}${eventId}`;
+const queueKey = (eventId: string) => `checkin-queue-${eventId}`;
+
+const read = <T>(key: string): T | null => {
+  try {
+    const value = localStorage.getItem(key);
+    return value ? superjson.parse<T>(value) : null;
+  } catch {
+    return null;
+  }
+};
+
+const write = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, superjson.stringify(value));
+  } catch (error) {
+    // Storage can be full or disabled, the page still works online
+    console.error(error);
+  }
+};
+
+const isExpired = (event: AdminEvent | null) =>
+  !event || event.date.getTime() + MANIFEST_TTL < Date.now();
+
+const manifestKeys = () =>
+  Object.keys(localStorage).filter((key) => key.startsWith(MANIFEST_PREFIX));
+
+/**
+ * Removes manifests for events that are over, or every manifest when signing out
+ */
+export const removeManifests = (all = false) => {
+  try {
+    manifestKeys()
+      .filter((key) => all || isExpired(read<AdminEvent>(key)))
+      .forEach((key) => localStorage.removeItem(key));
+  } catch (error) {
+    console.error(error);
+  }
+};
+
+export const saveManifest = (event: AdminEvent) => {
+  removeManifests();
+  if (!isExpired(event)) {
+    write(manifestKey(event.id), event);
+  }
+};
+
+export const loadManifest = (eventId: string) => {
+  const event = read<AdminEvent>(manifestKey(eventId));
+  return isExpired(event) ? null : event;
+};
+
+/**
+ * Drops everything cached for offline check-in so the next user of the device
+ * can't read it. Queued check-ins only hold ids and are kept until synced.
+ */
+export const clearOfflineCheckIn = async () => {
+  removeManifests(true);
+  try {
+    const keys = await caches.keys();
+    await Promise.all(keys.map((key) => caches.delete(key)));
+  } catch (error) {
+    console.error(error);
+  }
+};
+
+/**
+ * Registers public/sw.js and hands it the page and scripts already loaded, so
+ * the check-in page opens from the cache when there is no coverage.
+ */
+export const useOfflineShell = () => {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) {
+      return;
+    }
+    navigator.serviceWorker.register("/sw.js")
+      .then(() => navigator.serviceWorker.ready)
+      .then((registration) => {
+        const urls = [
+          window.location.pathname,
+          "/api/auth/session",
+          ...performance.getEntriesByType("resource").map((entry) => entry.name)
+        ];
+        registration.active?.postMessage({ type: "CACHE_CHECK_IN_PAGE", urls });
+      })
+      .catch((error) => console.error(error));
+  }, []);
+};
+
+export const loadCheckInQueue = (eventId: string) =>
+  read<QueuedCheckIn[]>(queueKey(eventId)) ?? [];
+
+/**
+ * Queues a toggle. A passenger toggled several times before syncing is sent as
+ * the last toggle, compared against what the server had before the first one.
+ */
+export const queueCheckIn = (eventId: string, change: QueuedCheckIn) => {
+  const queue = loadCheckInQueue(eventId);
+  const previous = queue.find((x) => x.participantId === change.participantId);
+  const updated = [
+    ...queue.filter((x) => x.participantId !== change.participantId),
+    { ...change, baseUpdatedAt: previous ? previous.baseUpdatedAt : change.baseUpdatedAt }
+  ];
+  write(queueKey(eventId), updated);
+  return updated;
+};
+
+/**
+ * Removes synced toggles, keeping any made while the sync was in flight
+ */
+export const removeFromCheckInQueue = (eventId: string, synced: QueuedCheckIn[]) => {
+  const queue = loadCheckInQueue(eventId).filter(
+    (x) =>
+      !synced.some(
+        (y) =>
+          y.participantId === x.participantId &&
+          y.changedAt.getTime() === x.changedAt.getTime()
+      )
+  );
+  write(queueKey(eventId), queue);
+  return queue;
+};
+
+export const useOnlineStatus = () => {
+  const [isOnline, setIsOnline] = useState(true);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    update();
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  return isOnline;
+};
@@ -50,24 +50,34 @@ export const pollRefundStatus = async (
   return pollRefundStatus(refundId, checkRefundStatus, attempt + 1);
 };
 
+type CallbackEndPoint = "swishMemberCallback" | "swishEventCallback";
+
+export const createCallbackUrl = (
+  callbackEndPoint: CallbackEndPoint,
+  callbackSecret: string
+) => `${env.API_URL}/payment/${callbackEndPoint}?swish-secret=${callbackSecret}`;
+
 interface CreatePaymentIntentPayload {
-  payerAlias: string;
+  // Leave out to let the payer pick the phone, i.e. the m-commerce flow
+  payerAlias?: string;
   amount: number;
   message: string;
-  callbackEndPoint: "swishMemberCallback" | "swishEventCallback";
+  callbackEndPoint: CallbackEndPoint;
+  callbackSecret: string;
 }
 
 export const createPaymentIntentPayload = ({
   payerAlias,
   amount,
   message,
-  callbackEndPoint
+  callbackEndPoint,
+  callbackSecret
 }: CreatePaymentIntentPayload) => ({
   payeePaymentReference: "0123456789", // Check this
-  callbackUrl: `${env.API_URL}/payment/${callbackEndPoint}`,
+  callbackUrl: createCallbackUrl(callbackEndPoint, callbackSecret),
   payeeAlias: "1234679304", // Check this
   currency: "SEK",
   message,
   amount,
-  payerAlias: payerAlias.replaceAll("+46", "0")
+  payerAlias: payerAlias?.replaceAll("+46", "0")
 });
@@ -0,0 +1,41 @@
+import { Role } from "@prisma/client";
+
+export const PERMISSIONS = {
+  // See every event with its passengers and waitlist
+  VIEW_EVENTS: "events:view",
+  // Change cancellation policies and the waitlist
+  MANAGE_EVENTS: "events:manage",
+  REFUND_PAYMENTS: "payments:refund",
+  // Without VIEW_EVENTS only on the events and buses the user hosts
+  CHECK_IN: "checkIn",
+  VIEW_MEMBERS: "members:view",
+  MANAGE_BLOCKED: "security:blocked",
+  MANAGE_ROLES: "roles:manage"
+} as const;
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+export const rolePermissions: Record<Role, readonly Permission[]> = {
+  [Role.USER]: [],
+  [Role.ADMIN]: Object.values(PERMISSIONS),
+  [Role.TREASURER]: [PERMISSIONS.VIEW_EVENTS, PERMISSIONS.REFUND_PAYMENTS],
+  [Role.MEMBERSHIP_MANAGER]: [PERMISSIONS.VIEW_MEMBERS],
+  [Role.BUS_HOST]: [PERMISSIONS.CHECK_IN]
+};
+
+export const friendlyRoleNames = {
+  [Role.USER]: "Användare",
+  [Role.ADMIN]: "Superadmin",
+  [Role.TREASURER]: "Kassör",
+  [Role.MEMBERSHIP_MANAGER]: "Medlemsansvarig",
+  [Role.BUS_HOST]: "Bussvärd"
+} as const;
+
+export const hasPermission = (role: Role | null | undefined, permission: Permission) =>
+  !!role && rolePermissions[role].includes(permission);
+
+/**
+ * Whether the user can open the admin pages at all
+ */
+export const isStaff = (role: Role | null | undefined) =>
+  !!role && rolePermissions[role].length > 0;
@@ -0,0 +1,60 @@
+import { useEffect } from "react";
+import { api } from "~/utils/api";
+
+export const SEAT_AVAILABILITY_INTERVAL_MS = 10000;
+
+interface BusWithCount {
+  id: string;
+  seats: number;
+  _count: {
+    passengers: number;
+  };
+}
+
+/**
+ * Polls the seat count of every bus and writes it into the cached away games,
+ * so anything rendering getAwayGame or getAwayGames stays up to date.
+ * Leave out eventId on pages listing every upcoming trip.
+ */
+export const useLiveSeatAvailability = (eventId?: string) => {
+  const utils = api.useContext();
+  const { data: availability } = api.public.getSeatAvailability.useQuery(
+    { eventId },
+    { refetchInterval: SEAT_AVAILABILITY_INTERVAL_MS }
+  );
+
+  useEffect(() => {
+    if (!availability) {
+      return;
+    }
+    const withLiveCount = <T extends BusWithCount>(bus: T): T => {
+      const live = availability.find((x) => x.id === bus.id);
+      if (!live) {
+        return bus;
+      }
+      return {
+        ...bus,
+        seats: live.seats,
+        _count: { ...bus._count, passengers: live.bookedSeats }
+      };
+    };
+
+    if (eventId) {
+      utils.public.getAwayGame.setData({ id: eventId }, (game) =>
+        game && { ...game, buses: game.buses.map(withLiveCount) }
+      );
+      return;
+    }
+    utils.public.getAwayGames.setData(undefined, (games) =>
+      games?.map((game) => {
+        const buses = game.buses.map(withLiveCount);
+        return {
+          ...game,
+          buses,
+          maxSeats: buses.reduce((acc, bus) => acc + bus.seats, 0),
+          bookedSeats: buses.reduce((acc, bus) => acc + bus._count.passengers, 0)
+        };
+      })
+    );
+  }, [availability, eventId, utils]);
+};
@@ -1,3 +1,4 @@
+import { randomBytes, timingSafeEqual } from "crypto";
 import fs from "fs";
 import path from "path";
 import https from "https";
@@ -12,20 +13,32 @@ const keyPath = path.resolve(
 );
 const caPath = path.resolve("./swishCerts/Swish_TLS_RootCA.pem");
 
-const swishAgent = new https.Agent({
-  cert:
-    env.LOCAL_SWISH_CERTS === "true"
-      ? fs.readFileSync(certPath, { encoding: "utf8" })
-      : env.SWISH_CERT,
-  key:
-    env.LOCAL_SWISH_CERTS === "true"
-      ? fs.readFileSync(keyPath, { encoding: "utf8" })
-      : env.SWISH_KEY,
-  ca:
-    env.LOCAL_SWISH_CERTS === "true"
-      ? fs.readFileSync(caPath, { encoding: "utf8" })
-      : env.SWISH_CA
-});
+// Never in production, the simulator lets anyone decide how a payment ends
+export const isSwishSimulatorEnabled =
+  env.SWISH_SIMULATOR === "true" && env.NODE_ENV !== "production";
+
+if (env.SWISH_SIMULATOR === "true" && !isSwishSimulatorEnabled) {
+  console.error("SWISH_SIMULATOR is ignored in production");
+}
+
+// The local simulator is served over plain http and needs no certificates
+const swishAgent =
+  isSwishSimulatorEnabled
+    ? undefined
+    : new https.Agent({
+        cert:
+          env.LOCAL_SWISH_CERTS === "true"
+            ? fs.readFileSync(certPath, { encoding: "utf8" })
+            : env.SWISH_CERT,
+        key:
+          env.LOCAL_SWISH_CERTS === "true"
+            ? fs.readFileSync(keyPath, { encoding: "utf8" })
+            : env.SWISH_KEY,
+        ca:
+          env.LOCAL_SWISH_CERTS === "true"
+            ? fs.readFileSync(caPath, { encoding: "utf8" })
+            : env.SWISH_CA
+      });
 
 export const swishClient = axios.create({
   httpsAgent: swishAgent
@@ -34,17 +47,42 @@ export const swishClient = axios.create({
 const SWISH_PATHS = {
   PAYMENT_REQUEST: `${env.SWISH_MERCHANT_BASEURL}/v2/paymentrequests`,
   REFUND_REQUEST: `${env.SWISH_MERCHANT_BASEURL}/v2/refunds`,
-  PAYMENT_STATUS: `${env.SWISH_MERCHANT_BASEURL}/v1/paymentrequests`
+  PAYMENT_STATUS: `${env.SWISH_MERCHANT_BASEURL}/v1/paymentrequests`,
+  REFUND_STATUS: `${env.SWISH_MERCHANT_BASEURL}/v1/refunds`,
+  QR_CODE: "https://mpc.getswish.net/qrg-swish/api/v1/commerce"
 };
 
 /**
  * Swish only supports UUIDs without dashes and in uppercase.
  * @returns uppercase string without dashes
  */
-const createSwishUUID = () => {
+export const createSwishUUID = () => {
   return crypto.randomUUID().replaceAll("-", "").toUpperCase();
 };
 
+/**
+ * Random secret that is embedded in the callbackUrl of a payment or refund.
+ * Swish echoes the url back so a callback can be matched to its request.
+ */
+export const createCallbackSecret = () => {
+  return randomBytes(32).toString("hex");
+};
+
+export const isValidCallbackSecret = (
+  expected: string | null,
+  actual: string | null
+) => {
+  if (!expected || !actual) {
+    return false;
+  }
+  const expectedBuffer = Buffer.from(expected);
+  const actualBuffer = Buffer.from(actual);
+  return (
+    expectedBuffer.length === actualBuffer.length &&
+    timingSafeEqual(expectedBuffer, actualBuffer)
+  );
+};
+
 export interface PaymentRequest {
   amount: string | number;
   callbackUrl: string;
@@ -67,8 +105,10 @@ export interface RefundRequest extends Omit<PaymentRequest, "payeeAlias"> {
   originalPaymentReference: string;
 }
 
-export const createRefundRequest = (data: RefundRequest) => {
-  const instructionId = createSwishUUID();
+export const createRefundRequest = (
+  data: RefundRequest,
+  instructionId = createSwishUUID()
+) => {
   return swishClient.put(
     `${SWISH_PATHS.REFUND_REQUEST}/${instructionId}`,
     data
@@ -78,3 +118,32 @@ export const createRefundRequest = (data: RefundRequest) => {
 export const getPaymentStatus = (id: string) => {
   return swishClient.get(`${SWISH_PATHS.PAYMENT_STATUS}/${id}`);
 };
+
+export const getRefundStatus = (id: string) => {
+  return swishClient.get(`${SWISH_PATHS.REFUND_STATUS}/${id}`);
+};
+
+/**
+ * Renders the token of an m-commerce payment request as a QR code
+ * that can be scanned from the Swish app.
+ * @returns svg data url, or null if Swish could not generate the code
+ */
+export const getPaymentQrCode = async (paymentRequestToken: string) => {
+  try {
+    const res = await axios.post<string>(
+      SWISH_PATHS.QR_CODE,
+      {
+        token: paymentRequestToken,
+        format: "svg",
+        size: 300,
+        transparent: true
+      },
+      { responseType: "text" }
+    );
+    return `data:image/svg+xml;base64,${Buffer.from(res.data).toString("base64")}`;
+  } catch (error) {
+    console.error("Error creating Swish QR code");
+    console.error(error);
+    return null;
+  }
+};
@@ -16,6 +16,14 @@ export const participantSchema = z.object({
   youth: z.boolean()
 });
 
+export const waitlistSchema = z.object({
+  name: z.string().min(1),
+  email: z.string().email({ message: "Felaktig email" }),
+  phone: z.string().min(1),
+  eventId: z.string(),
+  busId: z.string().optional()
+});
+
 const SwishPaymentStatuses: [SwishPaymentStatus, ...SwishPaymentStatus[]] = [
   // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
   Object.values(SwishPaymentStatus)[0]!,
@@ -28,12 +36,17 @@ const SwishRefundStatuses: [SwishRefundStatus, ...SwishRefundStatus[]] = [
   ...Object.values(SwishRefundStatus).slice(1)
 ];
 
+// ecommerce: Swish asks the phone number the payer entered.
+// mcommerce: the payer opens the request with a QR code or app switch.
+export const swishFlowSchema = z.enum(["ecommerce", "mcommerce"]);
+
 export const swishCallbackPaymentSchema = z.object({
   id: z.string(),
   payeePaymentReference: z.string(),
-  paymentReference: z.string(),
+  // Only set once the payment has been paid
+  paymentReference: z.string().nullable(),
   callbackUrl: z.string(),
-  payerAlias: z.string(),
+  payerAlias: z.string().nullable(),
   payeeAlias: z.string(),
   currency: z.string(),
   message: z.string(),
@@ -78,6 +91,35 @@ export const signupSchema = z
     message: "Lösenorden matchar inte"
   });
 
+const newPassword = z
+  .string()
+  .min(8, { message: "Lösenordet måste vara minst 8 tecken" })
+  .max(64, { message: "Lösenordet får inte vara mer än 64 tecken" });
+
+export const passwordResetRequestSchema = z.object({
+  email: z.string().email({ message: "Felaktig email" })
+});
+
+export const passwordResetSchema = z
+  .object({
+    token: z.string().min(1, { message: "Länken är ogiltig" }),
+    password: newPassword,
+    confirmPassword: newPassword
+  })
+  .refine((x) => x.confirmPassword === x.password, {
+    message: "Lösenorden matchar inte"
+  });
+
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, { message: "Ange ditt nuvarande lösenord" }),
+    password: newPassword,
+    confirmPassword: newPassword
+  })
+  .refine((x) => x.confirmPassword === x.password, {
+    message: "Lösenorden matchar inte"
+  });
+
 export const loginSchema = z.object({
   email: z.string().email({ message: "Felaktig email" }),
   password: z
@@ -95,6 +137,7 @@ export const memberSignupSchema = z
     membershipType: z.nativeEnum(MembershipType),
     membershipId: z.string().min(1),
     phone: z.string().min(1),
+    swishFlow: swishFlowSchema.default("ecommerce"),
     additionalMembers: z
       .array(
         z.object({
@@ -113,3 +156,44 @@ export const memberSignupSchema = z
     }
     return true;
   });
+
+export const cancellationPolicySchema = z.object({
+  eventId: z.string(),
+  fee: z.number().min(0, { message: "Avgiften kan inte vara negativ" }),
+  tiers: z
+    .array(
+      z.object({
+        hoursBeforeDeparture: z.number().int().min(0),
+        refundPercentage: z
+          .number()
+          .int()
+          .min(0)
+          .max(100, { message: "Återbetalningen kan inte överstiga 100 %" })
+      })
+    )
+    .min(1, { message: "Ange minst en avbokningsgräns" })
+});
+
+export const checkInChangeSchema = z.object({
+  participantId: z.string(),
+  checkedIn: z.boolean(),
+  // When the host toggled the passenger, on the host's device
+  changedAt: z.date(),
+  // checkedInUpdatedAt of the passenger as last seen by the device
+  baseUpdatedAt: z.date().nullable()
+});
+
+export const checkInSyncSchema = z.object({
+  eventId: z.string(),
+  changes: z.array(checkInChangeSchema),
+  // The device's clock when sending, to correct changedAt for a wrong clock
+  sentAt: z.date()
+});
+
+export const householdMemberSchema = z.object({
+  // The family membership payment the member is added to
+  paymentId: z.string(),
+  firstName: z.string().min(1, { message: "Ange förnamn" }),
+  lastName: z.string().min(1, { message: "Ange efternamn" }),
+  email: z.string().email({ message: "Felaktig email" })
+});